@@ -1,9 +1,13 @@
 import FaceLiveness from './components/FaceLiveness';
+import OfflineAnalysis from './components/OfflineAnalysis';
+
+// ?mode=offline 打开离线分析页，不启动摄像头
+const isOfflineMode = new URLSearchParams(window.location.search).get('mode') === 'offline';
 
 const App = () => {
   return (
     <div className="min-h-screen bg-slate-50 p-6">
-      <FaceLiveness />
+      {isOfflineMode ? <OfflineAnalysis /> : <FaceLiveness />}
     </div>
   );
 };
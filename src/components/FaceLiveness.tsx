@@ -1,8 +1,57 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import gifshot from 'gifshot';
-import { CheckCircle2, Loader2, Activity, PowerOff, Eye, MoveVertical, MoveHorizontal, Check, QrCode, Smile } from 'lucide-react';
-import { LivenessEngine, LIVENESS_STAGES, type LivenessStageKey, type ProcessFrameResult } from '../services/livenessEngine';
+import {
+  CheckCircle2,
+  Loader2,
+  Activity,
+  PowerOff,
+  Eye,
+  MoveVertical,
+  MoveHorizontal,
+  Check,
+  QrCode,
+  Smile,
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  ArrowDown,
+  ScanFace,
+} from 'lucide-react';
+import {
+  compareFaces,
+  createChallengePlan,
+  getLivenessStage,
+  type ChallengePlan,
+  type DetectionWithLandmarks,
+  type FrameTiming,
+  type LivenessConfig,
+  type LivenessEngineOptions,
+  type LivenessStageKey,
+  type ModelLoadPhase,
+  type ModelLoadProgress,
+  type ModelName,
+  type OcclusionMetrics,
+  type ProcessFrameResult,
+} from '../services/livenessEngine';
+import { ALIGNMENT_TEMPLATES, drawAlignedFace, type AlignmentTemplateName } from '../services/faceAlignment';
+import { createLivenessEngine, type LivenessEngineHandle } from '../services/livenessWorkerClient';
+import {
+  mapVideoBoxToScreen,
+  PositioningGate,
+  type PositioningGuidance,
+  type PositioningState,
+  type ScreenRect,
+} from '../services/facePositioning';
+import { computeImageQuality } from '../services/imageQuality';
+import { DEFAULT_STAGE_TIMEOUT_MS, StageTimer, type StageTimerState } from '../services/stageTimer';
+import {
+  evaluateCompliance,
+  measureEyeGlare,
+  type ComplianceLimits,
+  type ComplianceMeasurements,
+  type ComplianceReport,
+} from '../services/photoCompliance';
 
 interface Challenge {
   key: LivenessStageKey;
@@ -11,22 +60,95 @@ interface Challenge {
   icon: React.ElementType;
 }
 
-const CHALLENGE_META: Record<LivenessStageKey, { label: string; instruction: string; icon: React.ElementType }> = {
+type ChallengeMeta = Omit<Challenge, 'key'>;
+
+// 内置动作的界面文案；通过 registerLivenessStage 注册的动作直接使用其 label/prompt/icon
+const CHALLENGE_META: Partial<Record<LivenessStageKey, ChallengeMeta>> = {
     nod: { label: 'NOD', instruction: 'Nod Head', icon: MoveVertical },
     shake: { label: 'SHAKE', instruction: 'Shake Head', icon: MoveHorizontal },
     blink: { label: 'BLINK', instruction: 'Blink', icon: Eye },
     mouth: { label: 'OPEN MOUTH', instruction: 'Open Mouth', icon: Smile },
+    turnLeft: { label: 'TURN LEFT', instruction: 'Turn Head Left', icon: ArrowLeft },
+    turnRight: { label: 'TURN RIGHT', instruction: 'Turn Head Right', icon: ArrowRight },
+    lookUp: { label: 'LOOK UP', instruction: 'Look Up', icon: ArrowUp },
+    lookDown: { label: 'LOOK DOWN', instruction: 'Look Down', icon: ArrowDown },
+};
+
+const GIF_NAMES: Partial<Record<LivenessStageKey, string>> = {
+  nod: 'nod',
+  shake: 'shake',
+  blink: 'blink',
+  mouth: 'open',
+};
+
+const buildChallenges = (stageKeys: LivenessStageKey[]): Challenge[] => stageKeys.map((key) => {
+  const meta = CHALLENGE_META[key];
+  const stage = getLivenessStage(key);
+  return {
+    key,
+    label: meta?.label ?? stage?.label ?? key,
+    instruction: meta?.instruction ?? stage?.prompt ?? key,
+    icon: meta?.icon ?? stage?.icon ?? Activity,
+  };
+});
+
+const buildGifMap = (challenges: Challenge[], evidence: string[]) => {
+  const gifMap: Record<string, string | null> = {};
+  Object.values(GIF_NAMES).forEach((name) => {
+    if (name) gifMap[name] = null;
+  });
+  challenges.forEach((challenge, index) => {
+    gifMap[GIF_NAMES[challenge.key] ?? challenge.key] = evidence[index] || null;
+  });
+  return gifMap;
 };
 
-const CHALLENGES: Challenge[] = LIVENESS_STAGES.map((stage) => ({
-  key: stage.key,
-  label: CHALLENGE_META[stage.key].label,
-  instruction: CHALLENGE_META[stage.key].instruction,
-  icon: CHALLENGE_META[stage.key].icon,
-}));
+const MODEL_LABELS: Record<ModelName, string> = {
+  detector: 'face detector',
+  landmark: 'landmark model',
+  antiSpoof: 'anti-spoof model',
+  embedding: 'face embedding model',
+};
+
+const MODEL_PHASE_LABELS: Record<ModelLoadPhase, string> = {
+  download: 'Downloading',
+  compile: 'Compiling',
+  warmup: 'Warming up',
+};
+
+const describeModelLoadProgress = (event: ModelLoadProgress) => {
+  const label = `${MODEL_PHASE_LABELS[event.phase]} ${MODEL_LABELS[event.model]}`;
+  if (event.phase === 'download' && event.total) {
+    return `${label} (${(event.loaded / 1048576).toFixed(1)} / ${(event.total / 1048576).toFixed(1)} MB)`;
+  }
+  return label;
+};
+
+// 引导椭圆：中心为遮罩层的相对位置，半轴为 CSS 像素；遮罩绘制与位置判定共用
+const GUIDE_OVAL = { centerX: 0.5, centerY: 0.45, radiusX: 130, radiusY: 165 };
+
+const POSITIONING_GUIDANCE_TEXT: Record<PositioningGuidance, string> = {
+  NO_FACE: 'Place Your Face in the Oval',
+  MOVE_CLOSER: 'Too Far, Move Closer',
+  MOVE_BACK: 'Too Close, Move Back',
+  MOVE_LEFT: 'Move Left',
+  MOVE_RIGHT: 'Move Right',
+  MOVE_UP: 'Move Up',
+  MOVE_DOWN: 'Move Down',
+  HOLD_STILL: 'Hold Still',
+  READY: 'Hold Still',
+};
 
-const DEFAULT_STAGE_TIMEOUT_MS = 3000;
-const MIN_STAGE_COMPLETE_MS = 1000;
+// 鼻子和嘴都被挡多半是口罩，双眼都被挡多半是墨镜，其余按手等遮挡提示
+const describeOcclusion = (occlusion: OcclusionMetrics | null | undefined) => {
+  if (!occlusion?.occluded) return null;
+  const { regions } = occlusion;
+  if (regions.nose && regions.mouth) return 'Please Remove Your Mask';
+  if (regions.leftEye && regions.rightEye) return 'Please Remove Your Sunglasses';
+  return 'Please Uncover Your Face';
+};
+
+const DEFAULT_REFERENCE_MATCH_THRESHOLD = 0.35;
 const EVIDENCE_FRAME_COUNT = 15;
 const STAGE_TIMEOUTS_MS: Partial<Record<LivenessStageKey, number>> = {
   nod: DEFAULT_STAGE_TIMEOUT_MS,
@@ -35,23 +157,110 @@ const STAGE_TIMEOUTS_MS: Partial<Record<LivenessStageKey, number>> = {
   mouth: DEFAULT_STAGE_TIMEOUT_MS,
 };
 
-const FaceLiveness: React.FC = () => {
+interface FaceLivenessProps {
+  /** 服务端下发的固定动作序列，优先于 challengeSeed */
+  challengePlan?: ChallengePlan;
+  /** 服务端下发的随机种子/nonce，用于生成可复核的动作序列 */
+  challengeSeed?: string;
+  /** 随机抽取的动作池，默认为点头/摇头/眨眼/张嘴；可加入 turnLeft 等方向动作 */
+  challengeStages?: LivenessStageKey[];
+  /** 注册自定义动作的模块地址，会在推理 Worker 中再次 import */
+  stageModuleUrls?: string[];
+  /** 透传给 LivenessEngine 的配置，例如 antiSpoofModelUrl / antiSpoofThreshold */
+  engineOptions?: LivenessEngineOptions;
+  /** 证件照等参考人脸（URL 或已加载的图片），需同时配置 engineOptions.embeddingModelUrl */
+  referenceImage?: string | HTMLImageElement;
+  /** 参考人脸比对的相似度阈值，默认 0.35 */
+  referenceMatchThreshold?: number;
+  /** images.faceAligned 使用的对齐模板：arcface 为 112×112 比对输入，portrait 为带肩部的证件照构图 */
+  alignedFaceTemplate?: AlignmentTemplateName;
+  /** images.faceAligned 的边长，默认与模板尺寸一致 */
+  alignedFaceSize?: number;
+  /** 开始动作前要求人脸进入引导椭圆、距离合适并保持稳定，默认开启 */
+  requirePositioning?: boolean;
+  /** 关键帧证件照合规判定的阈值覆盖，未设置的字段取 DEFAULT_COMPLIANCE_LIMITS */
+  complianceLimits?: Partial<ComplianceLimits>;
+}
+
+interface ReferenceMatch {
+  similarity: number | null;
+  threshold: number;
+  matched: boolean;
+}
+
+const loadReferenceImage = async (source: string | HTMLImageElement) => {
+  if (typeof source !== 'string') return source;
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = source;
+  await image.decode();
+  return image;
+};
+
+// 优先按摄像头帧回调调度，每帧只触发一次并带有采集时间；不支持时退回 rAF。返回取消函数
+const scheduleVideoFrame = (video: HTMLVideoElement | null, callback: (timing: FrameTiming) => void) => {
+  if (video && typeof video.requestVideoFrameCallback === 'function') {
+    const handle = video.requestVideoFrameCallback((_now, metadata) => {
+      callback({
+        timestampMs: metadata.captureTime ?? metadata.presentationTime,
+        mediaTime: metadata.mediaTime,
+        frameNumber: metadata.presentedFrames,
+      });
+    });
+    return () => video.cancelVideoFrameCallback(handle);
+  }
+  const handle = requestAnimationFrame((now) => {
+    callback({ timestampMs: now, mediaTime: video?.currentTime });
+  });
+  return () => cancelAnimationFrame(handle);
+};
+
+// rAF 退回路径没有帧序号，按媒体时间判断是否仍是上一帧
+const isSameVideoFrame = (timing: FrameTiming, previous: FrameTiming | null) => {
+  if (!previous) return false;
+  if (typeof timing.frameNumber === 'number') return timing.frameNumber === previous.frameNumber;
+  return typeof timing.mediaTime === 'number' && timing.mediaTime === previous.mediaTime;
+};
+
+const resolveChallengePlan = (props: FaceLivenessProps) =>
+  props.challengePlan ?? createChallengePlan({ seed: props.challengeSeed, stages: props.challengeStages });
+
+const FaceLiveness: React.FC<FaceLivenessProps> = ({
+  challengePlan: challengePlanProp,
+  challengeSeed,
+  challengeStages,
+  stageModuleUrls,
+  engineOptions,
+  referenceImage,
+  referenceMatchThreshold = DEFAULT_REFERENCE_MATCH_THRESHOLD,
+  alignedFaceTemplate = 'arcface',
+  alignedFaceSize,
+  requirePositioning = true,
+  complianceLimits,
+}) => {
+  const [challengePlan, setChallengePlan] = useState<ChallengePlan>(() =>
+    resolveChallengePlan({ challengePlan: challengePlanProp, challengeSeed, challengeStages }),
+  );
+  const challenges = useMemo(() => buildChallenges(challengePlan.stages), [challengePlan]);
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [isMobileHandoff, setIsMobileHandoff] = useState(false);
   const [mobileStatus, setMobileStatus] = useState<'WAITING' | 'CONNECTED' | 'PROCESSING' | 'COMPLETED'>('WAITING');
   
-  const [sessionState, setSessionState] = useState<'IDLE' | 'READY' | 'LOADING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'>('IDLE');
+  const [sessionState, setSessionState] = useState<'IDLE' | 'READY' | 'LOADING' | 'POSITIONING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'>('IDLE');
   const [currentChallengeIndex, setCurrentChallengeIndex] = useState(0);
   const [result, setResult] = useState<'PASS' | 'FAIL' | null>(null);
-  const [evidenceMedia, setEvidenceMedia] = useState<string[]>(() => Array(CHALLENGES.length).fill(''));
+  const [evidenceMedia, setEvidenceMedia] = useState<string[]>(() => Array(challengePlan.stages.length).fill(''));
   const [instructionText, setInstructionText] = useState("");
   const [isChallengePassing, setIsChallengePassing] = useState(false);
   const [isStageCooldown, setIsStageCooldown] = useState(false);
   const [isCompletionDelay, setIsCompletionDelay] = useState(false);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelLoadProgress, setModelLoadProgress] = useState<ModelLoadProgress | null>(null);
   const [isEngineReady, setIsEngineReady] = useState(false);
   const [algoFps, setAlgoFps] = useState<number | null>(null);
   const [multiFaceWarning, setMultiFaceWarning] = useState(false);
+  const [occlusionPrompt, setOcclusionPrompt] = useState<string | null>(null);
+  const [positioning, setPositioning] = useState<PositioningState | null>(null);
   const [stageProgress, setStageProgress] = useState(1);
   const [keyFrameImage, setKeyFrameImage] = useState<string | null>(null);
   const [qualityScore, setQualityScore] = useState<number | null>(null);
@@ -63,51 +272,56 @@ const FaceLiveness: React.FC = () => {
   const [uniformLightingScore, setUniformLightingScore] = useState<number | null>(null);
   const [backgroundUniformityScore, setBackgroundUniformityScore] = useState<number | null>(null);
   const [pixelResolutionScore, setPixelResolutionScore] = useState<number | null>(null);
+  const [complianceReport, setComplianceReport] = useState<ComplianceReport | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const inferenceRafRef = useRef<number | null>(null);
-  const engineRef = useRef<LivenessEngine | null>(null);
+  const cancelInferenceRef = useRef<(() => void) | null>(null);
+  const lastFrameTimingRef = useRef<FrameTiming | null>(null);
+  const maskRef = useRef<HTMLDivElement>(null);
+  const positioningGateRef = useRef(new PositioningGate());
+  const engineRef = useRef<LivenessEngineHandle | null>(null);
   const engineBusyRef = useRef(false);
   const completionFlashRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const stageCooldownRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const isStageCooldownRef = useRef(false);
-  const completionDelayRef = useRef(false);
-  const completionDelayTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const stageTimerRef = useRef(new StageTimer({
+    getTimeoutMs: (stageKey) => STAGE_TIMEOUTS_MS[stageKey] ?? getLivenessStage(stageKey)?.timeoutMs,
+  }));
   const completedStageKeyRef = useRef<LivenessStageKey | null>(null);
-  const stageStartTimesRef = useRef<Record<LivenessStageKey, number>>({} as Record<LivenessStageKey, number>);
   const analysisTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const fpsCounterRef = useRef(0);
   const fpsLastTimeRef = useRef<number | null>(null);
-  const stageStartTimeRef = useRef<number | null>(null);
+  // 与 occlusionPrompt 同步，供计时循环读取
+  const isOccludedRef = useRef(false);
   const progressRafRef = useRef<number | null>(null);
-  const stageTimeoutRef = useRef(DEFAULT_STAGE_TIMEOUT_MS);
-  const currentStageKeyRef = useRef<LivenessStageKey | null>(null);
   const keyFrameScoreRef = useRef<number>(-Infinity);
   const keyFrameOriginalRef = useRef<string | null>(null);
   const keyFrameFullRef = useRef<string | null>(null);
-  const stageFrameBufferRef = useRef<Record<LivenessStageKey, string[]>>({
-    nod: [],
-    shake: [],
-    blink: [],
-    mouth: [],
-  });
-  const evidenceMediaRef = useRef<string[]>(Array(CHALLENGES.length).fill(''));
+  const keyFrameAlignedRef = useRef<string | null>(null);
+  const keyFrameBitmapRef = useRef<ImageBitmap | null>(null);
+  const referenceMatchRef = useRef<ReferenceMatch | null>(null);
+  const stageFrameBufferRef = useRef<Partial<Record<LivenessStageKey, string[]>>>({});
+  const evidenceMediaRef = useRef<string[]>(Array(challengePlan.stages.length).fill(''));
+  const challengePlanRef = useRef<ChallengePlan>(challengePlan);
+  const challengesRef = useRef<Challenge[]>(challenges);
   const pendingGifPromisesRef = useRef<Promise<void>[]>([]);
   const artifactsSavedRef = useRef(false);
+  const sessionSpoofProbabilityRef = useRef<number | null>(null);
+  const sessionScreenReplayScoreRef = useRef<number | null>(null);
+  const failureReasonRef = useRef<string | null>(null);
+  const engineConfigRef = useRef<Readonly<LivenessConfig> | null>(null);
 
   const buildConsolePayload = useCallback((status: 'PASS' | 'FAIL') => {
-    const gifMap: Record<string, string | null> = {
-      nod: evidenceMediaRef.current[0] || null,
-      shake: evidenceMediaRef.current[1] || null,
-      blink: evidenceMediaRef.current[2] || null,
-      open: evidenceMediaRef.current[3] || null,
-    };
+    const gifMap = buildGifMap(challengesRef.current, evidenceMediaRef.current);
     return {
       event: 'LIVENESS_RESULT',
       status,
       sessionState,
+      challengePlan: challengePlanRef.current,
+      config: engineConfigRef.current ?? engineRef.current?.getConfig() ?? null,
+      diagnostics: engineRef.current?.getBackendDiagnostics() ?? null,
+      failureReason: status === 'FAIL' ? failureReasonRef.current : null,
+      referenceMatch: status === 'PASS' ? referenceMatchRef.current : null,
       scores: {
         qualityScore,
         brightnessScore,
@@ -117,10 +331,14 @@ const FaceLiveness: React.FC = () => {
         uniformLightingScore,
         backgroundUniformityScore,
         pixelResolutionScore,
+        spoofProbability: sessionSpoofProbabilityRef.current,
+        screenReplayScore: sessionScreenReplayScoreRef.current,
       },
+      compliance: complianceReport,
       images: {
         faceFull: keyFrameFullRef.current || keyFrameImage,
         faceCrop: keyFrameOriginalRef.current,
+        faceAligned: keyFrameAlignedRef.current,
         gifs: gifMap,
       },
     };
@@ -129,6 +347,7 @@ const FaceLiveness: React.FC = () => {
     brightnessScore,
     brightnessStatus,
     clarityScore,
+    complianceReport,
     frontalFaceScore,
     keyFrameImage,
     pixelResolutionScore,
@@ -143,9 +362,13 @@ const FaceLiveness: React.FC = () => {
   }, [buildConsolePayload]);
 
   useEffect(() => {
-    engineRef.current = new LivenessEngine();
+    const engine = createLivenessEngine({ stageModuleUrls, ...engineOptions });
+    engineRef.current = engine;
     return () => {
-      engineRef.current?.stopSession();
+      engine.dispose();
+      if (engineRef.current === engine) {
+        engineRef.current = null;
+      }
     };
   }, []);
 
@@ -175,29 +398,20 @@ const FaceLiveness: React.FC = () => {
         setSessionState('READY');
         setInstructionText("");
         setResult(null);
-        setEvidenceMedia(Array(CHALLENGES.length).fill(''));
+        setEvidenceMedia(Array(challengesRef.current.length).fill(''));
         setIsChallengePassing(false);
         setIsStageCooldown(false);
         setIsCompletionDelay(false);
-        isStageCooldownRef.current = false;
-        completionDelayRef.current = false;
         completedStageKeyRef.current = null;
-        stageStartTimesRef.current = {} as Record<LivenessStageKey, number>;
+        stageTimerRef.current.reset();
         setCurrentChallengeIndex(0);
         setIsEngineReady(false);
         setIsLoadingModels(false);
-        stageFrameBufferRef.current = {
-          nod: [],
-          shake: [],
-          blink: [],
-          mouth: [],
-        };
+        stageFrameBufferRef.current = {};
         setAlgoFps(null);
         fpsCounterRef.current = 0;
         fpsLastTimeRef.current = null;
-        stageStartTimeRef.current = null;
-        currentStageKeyRef.current = null;
-        stageTimeoutRef.current = DEFAULT_STAGE_TIMEOUT_MS;
+        lastFrameTimingRef.current = null;
         if (progressRafRef.current) {
           cancelAnimationFrame(progressRafRef.current);
           progressRafRef.current = null;
@@ -207,7 +421,10 @@ const FaceLiveness: React.FC = () => {
         setKeyFrameImage(null);
         keyFrameScoreRef.current = -Infinity;
         keyFrameOriginalRef.current = null;
+        keyFrameAlignedRef.current = null;
+        keyFrameFullRef.current = null;
         setQualityScore(null);
+        setComplianceReport(null);
         setBrightnessScore(null);
         setBrightnessStatus(null);
         setPoseText('--');
@@ -230,17 +447,12 @@ const FaceLiveness: React.FC = () => {
       setMobileStatus('WAITING');
       setSessionState('IDLE');
       setResult(null);
-      setEvidenceMedia(Array(CHALLENGES.length).fill(''));
+      setEvidenceMedia(Array(challengesRef.current.length).fill(''));
       setCurrentChallengeIndex(0);
       engineRef.current?.stopSession();
       setIsEngineReady(false);
       setIsLoadingModels(false);
-      stageFrameBufferRef.current = {
-        nod: [],
-        shake: [],
-        blink: [],
-        mouth: [],
-      };
+      stageFrameBufferRef.current = {};
       
       // Simulate Mobile Flow Interaction
       setTimeout(() => {
@@ -267,22 +479,14 @@ const FaceLiveness: React.FC = () => {
       streamRef.current = null;
     }
     if (videoRef.current) videoRef.current.srcObject = null;
-    if (inferenceRafRef.current) {
-      cancelAnimationFrame(inferenceRafRef.current);
-      inferenceRafRef.current = null;
+    if (cancelInferenceRef.current) {
+      cancelInferenceRef.current();
+      cancelInferenceRef.current = null;
     }
     if (completionFlashRef.current) {
       clearTimeout(completionFlashRef.current);
       completionFlashRef.current = null;
     }
-    if (stageCooldownRef.current) {
-      clearTimeout(stageCooldownRef.current);
-      stageCooldownRef.current = null;
-    }
-    if (completionDelayTimerRef.current) {
-      clearTimeout(completionDelayTimerRef.current);
-      completionDelayTimerRef.current = null;
-    }
     if (analysisTimerRef.current) {
       clearTimeout(analysisTimerRef.current);
       analysisTimerRef.current = null;
@@ -296,27 +500,18 @@ const FaceLiveness: React.FC = () => {
     setIsChallengePassing(false);
     setIsStageCooldown(false);
     setIsCompletionDelay(false);
-    isStageCooldownRef.current = false;
-    completionDelayRef.current = false;
     completedStageKeyRef.current = null;
-    stageStartTimesRef.current = {} as Record<LivenessStageKey, number>;
+    stageTimerRef.current.reset();
     setResult(null);
-    setEvidenceMedia(Array(CHALLENGES.length).fill(''));
+    setEvidenceMedia(Array(challengesRef.current.length).fill(''));
     setCurrentChallengeIndex(0);
     setIsEngineReady(false);
     setIsLoadingModels(false);
-    stageFrameBufferRef.current = {
-      nod: [],
-      shake: [],
-      blink: [],
-      mouth: [],
-    };
+    stageFrameBufferRef.current = {};
     setAlgoFps(null);
     fpsCounterRef.current = 0;
     fpsLastTimeRef.current = null;
-    stageStartTimeRef.current = null;
-    currentStageKeyRef.current = null;
-    stageTimeoutRef.current = DEFAULT_STAGE_TIMEOUT_MS;
+    lastFrameTimingRef.current = null;
     if (progressRafRef.current) {
       cancelAnimationFrame(progressRafRef.current);
       progressRafRef.current = null;
@@ -330,11 +525,14 @@ const FaceLiveness: React.FC = () => {
     setBackgroundUniformityScore(null);
     setPixelResolutionScore(null);
     setQualityScore(null);
+    setComplianceReport(null);
     setBrightnessScore(null);
     setBrightnessStatus(null);
     setFrontalFaceScore(null);
     setPoseText('--');
     keyFrameOriginalRef.current = null;
+    keyFrameAlignedRef.current = null;
+    keyFrameFullRef.current = null;
   };
 
   const captureFrame = useCallback(() => {
@@ -468,8 +666,6 @@ const FaceLiveness: React.FC = () => {
     return canvas.toDataURL('image/png');
   }, []);
 
-  const clamp = (v: number, lo: number, hi: number) => (v < lo ? lo : (v > hi ? hi : v));
-
   const captureFullFrame = useCallback(() => {
     if (!videoRef.current) return null;
     const video = videoRef.current;
@@ -488,257 +684,57 @@ const FaceLiveness: React.FC = () => {
     return canvas.toDataURL('image/png');
   }, []);
 
-  const computeLaplacianScore = useCallback((bbox: [number, number, number, number]) => {
-    if (!videoRef.current) return null;
-    const video = videoRef.current;
-    const videoWidth = video.videoWidth;
-    const videoHeight = video.videoHeight;
-    if (!videoWidth || !videoHeight) return null;
-    const [x1, y1, x2, y2] = bbox;
-    const cropX = Math.max(0, Math.floor(x1));
-    const cropY = Math.max(0, Math.floor(y1));
-    const cropW = Math.min(videoWidth - cropX, Math.ceil(x2 - x1));
-    const cropH = Math.min(videoHeight - cropY, Math.ceil(y2 - y1));
-    if (cropW <= 1 || cropH <= 1) return null;
-    const canvas = document.createElement('canvas');
-    canvas.width = cropW;
-    canvas.height = cropH;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    ctx.save();
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, cropX, cropY, cropW, cropH, -cropW, 0, cropW, cropH);
-    ctx.restore();
-    const imageData = ctx.getImageData(0, 0, cropW, cropH);
-    const gray = new Uint8Array(cropW * cropH);
-    const data = imageData.data;
-    for (let i = 0, j = 0; i < data.length; i += 4, j += 1) {
-      gray[j] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-    }
-    const k4 = [0, 1, 0, 1, -4, 1, 0, 1, 0];
-    let mean = 0;
-    let M2 = 0;
-    let count = 0;
-    const clamp = (v: number, lo: number, hi: number) => (v < lo ? lo : (v > hi ? hi : v));
-    for (let y = 0; y < cropH; y += 1) {
-      for (let x = 0; x < cropW; x += 1) {
-        let acc = 0;
-        let idx = 0;
-        for (let dy = -1; dy <= 1; dy += 1) {
-          const yy = clamp(y + dy, 0, cropH - 1);
-          for (let dx = -1; dx <= 1; dx += 1) {
-            const xx = clamp(x + dx, 0, cropW - 1);
-            acc += gray[yy * cropW + xx] * k4[idx++];
-          }
-        }
-        const v = acc;
-        count += 1;
-        const delta = v - mean;
-        mean += delta / count;
-        const delta2 = v - mean;
-        M2 += delta * delta2;
-      }
-    }
-    const variance = count > 0 ? (M2 / count) : 0;
-    const sigma = Math.sqrt(Math.max(0, variance));
-    const mid = 35;
-    const steep = 0.08;
-    const score = 100 / (1 + Math.exp(-steep * (sigma - mid)));
-    return Math.round(Math.min(100, Math.max(0, score)));
-  }, []);
-
-  const computeBrightnessScore = useCallback((bbox: [number, number, number, number]) => {
-    if (!videoRef.current) return null;
-    const video = videoRef.current;
-    const videoWidth = video.videoWidth;
-    const videoHeight = video.videoHeight;
-    if (!videoWidth || !videoHeight) return null;
-    const [x1, y1, x2, y2] = bbox;
-    const cropX = Math.max(0, Math.floor(x1));
-    const cropY = Math.max(0, Math.floor(y1));
-    const cropW = Math.min(videoWidth - cropX, Math.ceil(x2 - x1));
-    const cropH = Math.min(videoHeight - cropY, Math.ceil(y2 - y1));
-    if (cropW <= 1 || cropH <= 1) return null;
-    const canvas = document.createElement('canvas');
-    canvas.width = cropW;
-    canvas.height = cropH;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    ctx.save();
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, cropX, cropY, cropW, cropH, -cropW, 0, cropW, cropH);
-    ctx.restore();
-    const imageData = ctx.getImageData(0, 0, cropW, cropH);
-    const gray = new Uint8Array(cropW * cropH);
-    const data = imageData.data;
-    for (let i = 0, j = 0; i < data.length; i += 4, j += 1) {
-      gray[j] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-    }
-    const values = Array.from(gray);
-    values.sort((a, b) => a - b);
-    const total = values.length;
-    if (!total) return null;
-    const clipPercent = 5;
-    const lowIndex = Math.floor((clipPercent / 100) * (total - 1));
-    const highIndex = Math.floor(((100 - clipPercent) / 100) * (total - 1));
-    const pLow = values[lowIndex];
-    const pHigh = values[highIndex];
-    let sum = 0;
-    let count = 0;
-    let overexposedCount = 0;
-    const overexposeGray = 240;
-    for (let i = 0; i < gray.length; i += 1) {
-      const v = gray[i];
-      if (v >= pLow && v <= pHigh) {
-        sum += v;
-        count += 1;
-      }
-      if (v >= overexposeGray) {
-        overexposedCount += 1;
-      }
-    }
-    if (!count) return { value: 0, status: 'invalid' };
-    const meanGray = sum / count;
-    const brightness = (meanGray / 255) * 100;
-    const overexposedRatio = overexposedCount / gray.length;
-    const lowThreshold = 30;
-    const highThreshold = 70;
-    const overexposeRatioThresh = 0.1;
-    let status = 'normal';
-    if (brightness < lowThreshold) {
-      status = 'underexposed';
-    } else if (brightness > highThreshold && overexposedRatio > overexposeRatioThresh) {
-      status = 'overexposed';
-    } else if (brightness > highThreshold) {
-      status = 'too bright';
-    }
-    const quality = Math.max(0, 100 - Math.abs(brightness - 50) * 2);
-    const rounded = Math.round(quality * 100) / 100;
-    return { value: rounded, status };
-  }, []);
-
-  const estimateBlurScore = useCallback((bbox: [number, number, number, number]) => {
-    if (!videoRef.current) return null;
-    const video = videoRef.current;
-    const width = video.videoWidth;
-    const height = video.videoHeight;
-    if (!width || !height) return null;
-    const [x1, y1, x2, y2] = bbox;
-    const faceW = x2 - x1;
-    const faceH = y2 - y1;
-    const padX = faceW * 0.2;
-    const padBottom = faceH * 0.2;
-    const sx = Math.max(0, Math.floor(x1 - padX));
-    const sy = Math.max(0, Math.floor(y1));
-    const sw = Math.min(width - sx, Math.ceil(faceW + padX * 2));
-    const sh = Math.min(height - sy, Math.ceil(faceH + padBottom));
-    if (sw <= 1 || sh <= 1) return null;
-    const size = 200;
+  // 对齐图不做镜像，保持真实朝向，供下游比对模型直接使用
+  const captureAlignedFrame = useCallback((kps?: Array<{ x: number; y: number }>) => {
+    if (!videoRef.current || !kps || kps.length < 5) return null;
+    const template = ALIGNMENT_TEMPLATES[alignedFaceTemplate];
+    const size = Math.max(1, Math.round(alignedFaceSize ?? template.size));
     const canvas = document.createElement('canvas');
     canvas.width = size;
     canvas.height = size;
     const ctx = canvas.getContext('2d');
     if (!ctx) return null;
-    ctx.save();
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, sx, sy, sw, sh, -size, 0, size, size);
-    ctx.restore();
-    const imageData = ctx.getImageData(0, 0, size, size);
-    const gray = new Uint8Array(size * size);
-    const data = imageData.data;
-    for (let i = 0, j = 0; i < data.length; i += 4, j += 1) {
-      gray[j] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-    }
-    let mean = 0;
-    let M2 = 0;
-    let count = 0;
-    const k4 = [0, 1, 0, 1, -4, 1, 0, 1, 0];
-    for (let y = 0; y < size; y += 1) {
-      for (let x = 0; x < size; x += 1) {
-        let acc = 0;
-        let idx = 0;
-        for (let dy = -1; dy <= 1; dy += 1) {
-          const yy = clamp(y + dy, 0, size - 1);
-          for (let dx = -1; dx <= 1; dx += 1) {
-            const xx = clamp(x + dx, 0, size - 1);
-            acc += gray[yy * size + xx] * k4[idx++];
-          }
-        }
-        const v = acc;
-        count += 1;
-        const delta = v - mean;
-        mean += delta / count;
-        const delta2 = v - mean;
-        M2 += delta * delta2;
-      }
-    }
-    const variance = count > 0 ? (M2 / count) : 0;
-    const maxThreshold = 500;
-    const score = Math.min((variance / maxThreshold) * 100, 100);
-    return Math.round(score * 100) / 100;
+    if (!drawAlignedFace(ctx, videoRef.current, kps, size, template)) return null;
+    return canvas.toDataURL('image/png');
+  }, [alignedFaceSize, alignedFaceTemplate]);
+
+  // 保留关键帧的原始（未镜像）画面，用于会话结束后与参考人脸比对
+  const captureKeyFrameBitmap = useCallback(() => {
+    if (!referenceImage || !videoRef.current) return;
+    void createImageBitmap(videoRef.current).then((bitmap) => {
+      keyFrameBitmapRef.current?.close();
+      keyFrameBitmapRef.current = bitmap;
+    }).catch(() => undefined);
+  }, [referenceImage]);
+
+  const releaseKeyFrameBitmap = useCallback(() => {
+    keyFrameBitmapRef.current?.close();
+    keyFrameBitmapRef.current = null;
   }, []);
 
-  const detectUniformLighting = useCallback((bbox: [number, number, number, number]) => {
-    if (!videoRef.current) return null;
-    const video = videoRef.current;
-    const width = video.videoWidth;
-    const height = video.videoHeight;
-    if (!width || !height) return null;
-    const [x1, y1, x2, y2] = bbox;
-    const sx = Math.max(0, Math.floor(x1));
-    const sy = Math.max(0, Math.floor(y1));
-    const sw = Math.min(width - sx, Math.ceil(x2 - x1));
-    const sh = Math.min(height - sy, Math.ceil(y2 - y1));
-    if (sw <= 1 || sh <= 1) return null;
-    const canvas = document.createElement('canvas');
-    canvas.width = sw;
-    canvas.height = sh;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    ctx.save();
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, sx, sy, sw, sh, -sw, 0, sw, sh);
-    ctx.restore();
-    const imageData = ctx.getImageData(0, 0, sw, sh);
-    const gray = new Uint8Array(sw * sh);
-    const data = imageData.data;
-    for (let i = 0, j = 0; i < data.length; i += 4, j += 1) {
-      gray[j] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-    }
-    const marginW = Math.floor(sw * 0.2);
-    const marginH = Math.floor(sh * 0.1);
-    const coreW = Math.max(1, sw - marginW * 2);
-    const coreH = Math.max(1, sh - marginH * 2);
-    const mid = Math.floor(coreW / 2);
-    let leftSum = 0;
-    let rightSum = 0;
-    let leftCount = 0;
-    let rightCount = 0;
-    for (let y = 0; y < coreH; y += 1) {
-      const yy = y + marginH;
-      for (let x = 0; x < coreW; x += 1) {
-        const xx = x + marginW;
-        const v = gray[yy * sw + xx];
-        if (x < mid) {
-          leftSum += v;
-          leftCount += 1;
-        } else {
-          rightSum += v;
-          rightCount += 1;
-        }
+  const computeReferenceMatch = useCallback(async (): Promise<ReferenceMatch | null> => {
+    const engine = engineRef.current;
+    const liveFrame = keyFrameBitmapRef.current;
+    if (!referenceImage || !engine || !liveFrame) return null;
+    try {
+      const reference = await loadReferenceImage(referenceImage);
+      const referenceEmbedding = await engine.computeEmbedding(reference);
+      const liveEmbedding = await engine.computeEmbedding(liveFrame);
+      if (!referenceEmbedding || !liveEmbedding) {
+        return { similarity: null, threshold: referenceMatchThreshold, matched: false };
       }
+      const similarity = Math.round(compareFaces(referenceEmbedding, liveEmbedding) * 1000) / 1000;
+      return { similarity, threshold: referenceMatchThreshold, matched: similarity >= referenceMatchThreshold };
+    } catch (err) {
+      console.warn('Reference face match failed', err);
+      return null;
+    } finally {
+      releaseKeyFrameBitmap();
     }
-    const lMean = leftCount ? leftSum / leftCount : 0;
-    const rMean = rightCount ? rightSum / rightCount : 0;
-    const lPct = (lMean / 255) * 100;
-    const rPct = (rMean / 255) * 100;
-    const diffRatio = Math.abs(lPct - rPct) / Math.max(lPct, rPct, 1);
-    const diffScore = diffRatio * 100;
-    const score = Math.max(0, Math.min(100, 100 - diffScore));
-    return Math.round(score * 100) / 100;
-  }, []);
+  }, [referenceImage, referenceMatchThreshold, releaseKeyFrameBitmap]);
 
-  const analyzeBackgroundUniformity = useCallback((bbox: [number, number, number, number]) => {
+  // 关键帧质量指标：整帧原始（未镜像）画面只读取一次，交给 imageQuality / photoCompliance 计算
+  const measureKeyFrameQuality = useCallback((detection: DetectionWithLandmarks) => {
     if (!videoRef.current) return null;
     const video = videoRef.current;
     const width = video.videoWidth;
@@ -747,74 +743,18 @@ const FaceLiveness: React.FC = () => {
     const canvas = document.createElement('canvas');
     canvas.width = width;
     canvas.height = height;
-    const ctx = canvas.getContext('2d');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return null;
-    ctx.filter = 'blur(10px)';
-    ctx.save();
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, 0, 0, width, height, -width, 0, width, height);
-    ctx.restore();
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const gray = new Uint8Array(width * height);
-    const data = imageData.data;
-    for (let i = 0, j = 0; i < data.length; i += 4, j += 1) {
-      gray[j] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-    }
-    const mask = new Uint8Array(width * height);
-    mask.fill(1);
-    const [x1, y1, x2, y2] = bbox;
-    const padRatio = 0.2;
-    const boxW = x2 - x1;
-    const boxH = y2 - y1;
-    const padW = boxW * padRatio;
-    const padH = boxH * padRatio;
-    const rx1 = Math.max(0, Math.floor(x1 - padW));
-    const ry1 = Math.max(0, Math.floor(y1 - padH));
-    const rx2 = Math.min(width, Math.ceil(x2 + padW));
-    const ry2 = Math.min(height, Math.ceil(y2 + padH));
-    for (let y = ry1; y < ry2; y += 1) {
-      for (let x = rx1; x < rx2; x += 1) {
-        mask[y * width + x] = 0;
-      }
-    }
-    let mean = 0;
-    let M2 = 0;
-    let count = 0;
-    for (let i = 0; i < gray.length; i += 1) {
-      if (mask[i] === 0) continue;
-      const v = gray[i];
-      count += 1;
-      const delta = v - mean;
-      mean += delta / count;
-      const delta2 = v - mean;
-      M2 += delta * delta2;
-    }
-    if (!count) return 0;
-    const variance = M2 / count;
-    const stdDev = Math.sqrt(variance);
-    const score = Math.max(0, Math.min(100, 100 - stdDev * 0.8));
-    return Math.round(score * 100) / 100;
-  }, []);
-
-  const evaluatePixelResolution = useCallback((kps?: Array<{ x: number; y: number }>) => {
-    if (!kps || kps.length < 2) return null;
-    const left = kps[0];
-    const right = kps[1];
-    const dx = left.x - right.x;
-    const dy = left.y - right.y;
-    const iod = Math.hypot(dx, dy);
-    const minIod = 80;
-    const highIod = 300;
-    let score = 0;
-    if (iod < minIod) {
-      score = (iod / minIod) * 60;
-    } else if (iod >= highIod) {
-      score = 100;
-    } else {
-      const ratio = (iod - minIod) / (highIod - minIod);
-      score = 60 + ratio * 40;
-    }
-    return Math.round(score * 100) / 100;
+    ctx.drawImage(video, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const quality = computeImageQuality({ data, width, height, bbox: detection.bbox, kps: detection.kps });
+    const glare = measureEyeGlare(data, width, height, detection.landmarks);
+    return {
+      width,
+      height,
+      quality,
+      eyeGlareRatio: glare === null ? null : Math.round(glare * 1000) / 1000,
+    };
   }, []);
 
   const handleSaveKeyFrame = useCallback(async () => {
@@ -855,12 +795,7 @@ const FaceLiveness: React.FC = () => {
     }
     await new Promise((resolve) => setTimeout(resolve, 0));
     const timestamp = Date.now();
-    const gifMap: Record<string, string | null> = {
-      nod: evidenceMediaRef.current[0] || null,
-      shake: evidenceMediaRef.current[1] || null,
-      blink: evidenceMediaRef.current[2] || null,
-      open: evidenceMediaRef.current[3] || null,
-    };
+    const gifMap = buildGifMap(challengesRef.current, evidenceMediaRef.current);
     for (const [key, value] of Object.entries(gifMap)) {
       if (value) {
         await downloadDataUrl(value, `${key}-${timestamp}.gif`);
@@ -905,15 +840,10 @@ const FaceLiveness: React.FC = () => {
     setIsChallengePassing(false);
     setIsStageCooldown(false);
     setIsCompletionDelay(false);
-    isStageCooldownRef.current = false;
-    completionDelayRef.current = false;
     completedStageKeyRef.current = null;
-    stageStartTimesRef.current = {} as Record<LivenessStageKey, number>;
+    stageTimerRef.current.reset();
     setIsEngineReady(false);
     setIsLoadingModels(false);
-    stageStartTimeRef.current = null;
-    currentStageKeyRef.current = null;
-    stageTimeoutRef.current = DEFAULT_STAGE_TIMEOUT_MS;
     if (progressRafRef.current) {
       cancelAnimationFrame(progressRafRef.current);
       progressRafRef.current = null;
@@ -924,14 +854,6 @@ const FaceLiveness: React.FC = () => {
       clearTimeout(completionFlashRef.current);
       completionFlashRef.current = null;
     }
-    if (stageCooldownRef.current) {
-      clearTimeout(stageCooldownRef.current);
-      stageCooldownRef.current = null;
-    }
-    if (completionDelayTimerRef.current) {
-      clearTimeout(completionDelayTimerRef.current);
-      completionDelayTimerRef.current = null;
-    }
     if (analysisTimerRef.current) {
       clearTimeout(analysisTimerRef.current);
       analysisTimerRef.current = null;
@@ -939,10 +861,13 @@ const FaceLiveness: React.FC = () => {
     setSessionState('COMPLETED');
     setInstructionText("Verification Passed");
     setResult('PASS');
-    void saveAllArtifacts().then(() => {
-      logConsoleResult('PASS');
-    });
-  }, [logConsoleResult, saveAllArtifacts, sessionState]);
+    void saveAllArtifacts()
+      .then(computeReferenceMatch)
+      .then((referenceMatch) => {
+        referenceMatchRef.current = referenceMatch;
+        logConsoleResult('PASS');
+      });
+  }, [computeReferenceMatch, logConsoleResult, saveAllArtifacts, sessionState]);
 
   const failSession = useCallback(() => {
     if (sessionState === 'COMPLETED' || sessionState === 'FAILED') return;
@@ -952,17 +877,12 @@ const FaceLiveness: React.FC = () => {
     setIsChallengePassing(false);
     setIsStageCooldown(false);
     setIsCompletionDelay(false);
-    isStageCooldownRef.current = false;
-    completionDelayRef.current = false;
     completedStageKeyRef.current = null;
-    stageStartTimesRef.current = {} as Record<LivenessStageKey, number>;
+    stageTimerRef.current.reset();
     setIsEngineReady(false);
     setIsLoadingModels(false);
     setResult('FAIL');
     setSessionState('FAILED');
-    stageStartTimeRef.current = null;
-    currentStageKeyRef.current = null;
-    stageTimeoutRef.current = DEFAULT_STAGE_TIMEOUT_MS;
     if (progressRafRef.current) {
       cancelAnimationFrame(progressRafRef.current);
       progressRafRef.current = null;
@@ -972,7 +892,11 @@ const FaceLiveness: React.FC = () => {
     setKeyFrameImage(null);
     keyFrameScoreRef.current = -Infinity;
     keyFrameOriginalRef.current = null;
+    keyFrameAlignedRef.current = null;
+    keyFrameFullRef.current = null;
+    releaseKeyFrameBitmap();
     setQualityScore(null);
+    setComplianceReport(null);
     setBrightnessScore(null);
     setBrightnessStatus(null);
     setPoseText('--');
@@ -985,14 +909,6 @@ const FaceLiveness: React.FC = () => {
       clearTimeout(completionFlashRef.current);
       completionFlashRef.current = null;
     }
-    if (stageCooldownRef.current) {
-      clearTimeout(stageCooldownRef.current);
-      stageCooldownRef.current = null;
-    }
-    if (completionDelayTimerRef.current) {
-      clearTimeout(completionDelayTimerRef.current);
-      completionDelayTimerRef.current = null;
-    }
     if (analysisTimerRef.current) {
       clearTimeout(analysisTimerRef.current);
       analysisTimerRef.current = null;
@@ -1000,59 +916,7 @@ const FaceLiveness: React.FC = () => {
     void saveAllArtifacts().then(() => {
       logConsoleResult('FAIL');
     });
-  }, [logConsoleResult, saveAllArtifacts, sessionState]);
-
-  const resetStageTimer = useCallback((stageKey: LivenessStageKey | null) => {
-    currentStageKeyRef.current = stageKey;
-    stageTimeoutRef.current = stageKey ? (STAGE_TIMEOUTS_MS[stageKey] ?? DEFAULT_STAGE_TIMEOUT_MS) : DEFAULT_STAGE_TIMEOUT_MS;
-    stageStartTimeRef.current = performance.now();
-    setStageProgress(1);
-    if (stageKey) {
-      stageStartTimesRef.current[stageKey] = stageStartTimeRef.current;
-      stageFrameBufferRef.current[stageKey] = [];
-    }
-  }, []);
-
-  useEffect(() => {
-    if (sessionState !== 'IN_PROGRESS') {
-      if (progressRafRef.current) {
-        cancelAnimationFrame(progressRafRef.current);
-        progressRafRef.current = null;
-      }
-      return;
-    }
-    let cancelled = false;
-    const tick = () => {
-      if (cancelled) return;
-      if (isStageCooldownRef.current || completionDelayRef.current) {
-        progressRafRef.current = requestAnimationFrame(tick);
-        return;
-      }
-      const now = performance.now();
-      if (stageStartTimeRef.current === null) {
-        stageStartTimeRef.current = now;
-        setStageProgress(1);
-      }
-      const elapsed = now - (stageStartTimeRef.current ?? now);
-      const timeoutMs = stageTimeoutRef.current || DEFAULT_STAGE_TIMEOUT_MS;
-      const progress = Math.max(0, 1 - (elapsed / timeoutMs));
-      setStageProgress(progress);
-      if (elapsed >= timeoutMs) {
-        setStageProgress(0);
-        failSession();
-        return;
-      }
-      progressRafRef.current = requestAnimationFrame(tick);
-    };
-    progressRafRef.current = requestAnimationFrame(tick);
-    return () => {
-      cancelled = true;
-      if (progressRafRef.current) {
-        cancelAnimationFrame(progressRafRef.current);
-        progressRafRef.current = null;
-      }
-    };
-  }, [failSession, sessionState]);
+  }, [logConsoleResult, releaseKeyFrameBitmap, saveAllArtifacts, sessionState]);
 
   const triggerCompletionFlash = useCallback(() => {
     setIsChallengePassing(true);
@@ -1065,33 +929,9 @@ const FaceLiveness: React.FC = () => {
     }, 800);
   }, []);
 
-  const startStageCooldown = useCallback((nextStageKey: LivenessStageKey | null) => {
-    if (nextStageKey) {
-      const nextIndex = CHALLENGES.findIndex((challenge) => challenge.key === nextStageKey);
-      if (nextIndex >= 0) {
-        setCurrentChallengeIndex(nextIndex);
-      }
-    }
-    isStageCooldownRef.current = true;
-    setIsStageCooldown(true);
-    setIsChallengePassing(true);
-    stageStartTimeRef.current = null;
-    setStageProgress(1);
-    if (stageCooldownRef.current) {
-      clearTimeout(stageCooldownRef.current);
-    }
-    stageCooldownRef.current = setTimeout(() => {
-      isStageCooldownRef.current = false;
-      setIsStageCooldown(false);
-      setIsChallengePassing(false);
-      stageCooldownRef.current = null;
-      resetStageTimer(nextStageKey);
-    }, 1000);
-  }, [resetStageTimer]);
-
   const handleStageCompleted = useCallback(async (stageIndex: number) => {
     triggerCompletionFlash();
-    const stageKey = CHALLENGES[stageIndex]?.key;
+    const stageKey = challengesRef.current[stageIndex]?.key;
     let buffer = stageKey ? (stageFrameBufferRef.current[stageKey] ?? []) : [];
     if (buffer.length === 0) {
       const frame = captureFrame();
@@ -1117,154 +957,287 @@ const FaceLiveness: React.FC = () => {
     }
   }, [captureFrame, createEvidenceGif, triggerCompletionFlash]);
 
+  // 统一处理计时器的状态与事件：保存动作证据、切换到下一个动作、通过或超时
+  const applyStageTimerState = useCallback((state: StageTimerState) => {
+    setIsStageCooldown(state.phase === 'cooldown');
+    setIsCompletionDelay(state.phase === 'completionDelay');
+    setStageProgress(state.remaining);
+    state.events.forEach((event) => {
+      switch (event.type) {
+        case 'stageCompleted': {
+          completedStageKeyRef.current = null;
+          void handleStageCompleted(event.stageIndex);
+          const nextIndex = challengesRef.current.findIndex((challenge) => challenge.key === event.nextStageKey);
+          if (nextIndex >= 0) {
+            setCurrentChallengeIndex(nextIndex);
+          }
+          setIsChallengePassing(true);
+          break;
+        }
+        case 'stageStarted':
+          setIsChallengePassing(false);
+          if (event.stageKey) {
+            stageFrameBufferRef.current[event.stageKey] = [];
+          }
+          break;
+        case 'finished':
+          if (!analysisTimerRef.current) {
+            finishSession();
+          }
+          break;
+        case 'timeout':
+          failureReasonRef.current = 'STAGE_TIMEOUT';
+          failSession();
+          break;
+      }
+    });
+  }, [failSession, finishSession, handleStageCompleted]);
+
+  // 计时由 StageTimer 按 performance.now() 推进，与帧采集时间同一时间轴
+  useEffect(() => {
+    if (sessionState !== 'IN_PROGRESS') {
+      if (progressRafRef.current) {
+        cancelAnimationFrame(progressRafRef.current);
+        progressRafRef.current = null;
+      }
+      return;
+    }
+    let cancelled = false;
+    const tick = () => {
+      if (cancelled) return;
+      // 五官被遮挡时引擎不推进动作，计时同样暂停，避免用户摘口罩期间超时
+      const state = stageTimerRef.current.tick(performance.now(), isOccludedRef.current);
+      applyStageTimerState(state);
+      if (state.phase === 'finished' || state.phase === 'timedOut') return;
+      progressRafRef.current = requestAnimationFrame(tick);
+    };
+    progressRafRef.current = requestAnimationFrame(tick);
+    return () => {
+      cancelled = true;
+      if (progressRafRef.current) {
+        cancelAnimationFrame(progressRafRef.current);
+        progressRafRef.current = null;
+      }
+    };
+  }, [applyStageTimerState, sessionState]);
+
   const handleLivenessResult = useCallback((result: ProcessFrameResult) => {
     const { stage, multiFaceDetected, metrics, detection } = result;
+    const frameTime = result.frame.timestampMs;
+    engineConfigRef.current = result.config;
     setMultiFaceWarning(Boolean(multiFaceDetected));
+    const occlusion = describeOcclusion(metrics?.occlusion);
+    isOccludedRef.current = Boolean(occlusion);
+    setOcclusionPrompt(occlusion);
+    if (typeof metrics?.sessionSpoofProbability === 'number') {
+      sessionSpoofProbabilityRef.current = metrics.sessionSpoofProbability;
+    }
+    if (typeof metrics?.sessionScreenReplayScore === 'number') {
+      sessionScreenReplayScoreRef.current = metrics.sessionScreenReplayScore;
+    }
+    if (stage.failed) {
+      failureReasonRef.current = stage.failureReason ?? null;
+      failSession();
+      return;
+    }
     if (typeof metrics?.frontalScore === 'number') {
       setFrontalFaceScore(metrics.frontalScore);
       setPoseText(metrics.frontalScore.toFixed(2));
     }
-    if (!isMobileHandoff && detection && typeof metrics?.frontalScore === 'number') {
+    // 遮挡时的画面不能用于比对，不作为正脸图候选
+    if (!isMobileHandoff && detection && typeof metrics?.frontalScore === 'number' && !metrics.occlusion?.occluded) {
       const poseScore = metrics.frontalScore;
       if (poseScore > keyFrameScoreRef.current) {
         const frame = captureKeyFrame(detection.bbox);
         const uploadFrame = captureUploadFrame(detection.bbox);
         const fullFrame = captureFullFrame();
-        const brightness = computeBrightnessScore(detection.bbox);
-        const clarity = estimateBlurScore(detection.bbox);
-        const uniformLighting = detectUniformLighting(detection.bbox);
-        const backgroundUniformity = analyzeBackgroundUniformity(detection.bbox);
-        const pixelResolution = evaluatePixelResolution(detection.kps);
+        const measured = measureKeyFrameQuality(detection);
+        const quality = measured?.quality ?? null;
         if (frame && uploadFrame && fullFrame) {
           keyFrameScoreRef.current = poseScore;
           keyFrameOriginalRef.current = uploadFrame;
           keyFrameFullRef.current = fullFrame;
+          keyFrameAlignedRef.current = captureAlignedFrame(detection.kps);
+          captureKeyFrameBitmap();
           setKeyFrameImage(fullFrame);
+          const landmarks = detection.landmarks;
+          const kps = detection.kps ?? [];
+          const eyeCenters: ComplianceMeasurements['eyeCenters'] = landmarks.length >= 98
+            ? [landmarks[96], landmarks[97]]
+            : kps.length >= 2 ? [kps[0], kps[1]] : null;
+          setComplianceReport(evaluateCompliance({
+            imageWidth: measured?.width ?? 0,
+            imageHeight: measured?.height ?? 0,
+            bbox: detection.bbox,
+            eyeCenters,
+            leftEar: metrics.blink?.leftEar ?? null,
+            rightEar: metrics.blink?.rightEar ?? null,
+            mouthRatio: metrics.mouthRatio,
+            poseDegrees: metrics.poseDegrees,
+            backgroundUniformity: quality?.backgroundUniformity ?? null,
+            brightness: quality?.brightness?.brightness ?? null,
+            overexposedRatio: quality?.brightness?.overexposedRatio ?? null,
+            eyeGlareRatio: measured?.eyeGlareRatio ?? null,
+          }, complianceLimits));
         }
-        if (brightness) {
-          setBrightnessScore(brightness.value);
-          setBrightnessStatus(brightness.status);
+        if (quality?.brightness) {
+          setBrightnessScore(quality.brightness.score);
+          setBrightnessStatus(quality.brightness.status);
         }
-        if (typeof clarity === 'number') {
-          setClarityScore(clarity);
+        if (typeof quality?.clarity === 'number') {
+          setClarityScore(quality.clarity);
         }
-        if (typeof uniformLighting === 'number') {
-          setUniformLightingScore(uniformLighting);
+        if (typeof quality?.uniformLighting === 'number') {
+          setUniformLightingScore(quality.uniformLighting);
         }
-        if (typeof backgroundUniformity === 'number') {
-          setBackgroundUniformityScore(backgroundUniformity);
+        if (typeof quality?.backgroundUniformity === 'number') {
+          setBackgroundUniformityScore(quality.backgroundUniformity);
         }
-        if (typeof pixelResolution === 'number') {
-          setPixelResolutionScore(pixelResolution);
+        if (typeof quality?.pixelResolution === 'number') {
+          setPixelResolutionScore(quality.pixelResolution);
         }
       }
     }
     if (multiFaceDetected) {
       return;
     }
-    if (isStageCooldownRef.current && !stage.completed) {
-      return;
-    }
-    if (completionDelayRef.current) {
-      const pendingKey = completedStageKeyRef.current;
-      if (pendingKey) {
-        appendStageFrame(pendingKey);
-      }
+    const stageTimer = stageTimerRef.current;
+    if (stageTimer.isHolding()) {
       return;
     }
     const activeStage = stage.currentStage;
     if (typeof stage.justCompletedIndex === 'number') {
-      const completedKey = CHALLENGES[stage.justCompletedIndex]?.key ?? null;
-      const startedAt = completedKey ? stageStartTimesRef.current[completedKey] : null;
-      const elapsed = performance.now() - (startedAt ?? performance.now());
-      if (elapsed < MIN_STAGE_COMPLETE_MS) {
-        completionDelayRef.current = true;
-        setIsCompletionDelay(true);
+      const completedKey = challengesRef.current[stage.justCompletedIndex]?.key ?? null;
+      const timerState = stageTimer.completeStage({
+        stageIndex: stage.justCompletedIndex,
+        nextStageKey: activeStage?.key ?? null,
+        sessionCompleted: stage.completed,
+      }, frameTime);
+      // 未满最短时长的完成先暂停取帧，期间的画面继续计入该动作的证据
+      if (timerState.phase === 'completionDelay') {
         completedStageKeyRef.current = completedKey;
-        if (completedStageKeyRef.current) {
-          appendStageFrame(completedStageKeyRef.current);
-        }
-        const remaining = MIN_STAGE_COMPLETE_MS - elapsed;
-        if (completionDelayTimerRef.current) {
-          clearTimeout(completionDelayTimerRef.current);
+        if (completedKey) {
+          appendStageFrame(completedKey);
         }
-        completionDelayTimerRef.current = setTimeout(() => {
-          completionDelayRef.current = false;
-          setIsCompletionDelay(false);
-          completionDelayTimerRef.current = null;
-          completedStageKeyRef.current = null;
-          void handleStageCompleted(stage.justCompletedIndex as number);
-          if (stage.completed) {
-            if (!analysisTimerRef.current) {
-              finishSession();
-            }
-          } else {
-            startStageCooldown(stage.currentStage?.key ?? null);
-          }
-        }, Math.max(0, remaining));
-        return;
-      }
-      void handleStageCompleted(stage.justCompletedIndex);
-      if (!stage.completed) {
-        startStageCooldown(stage.currentStage?.key ?? null);
-        return;
       }
-      resetStageTimer(stage.currentStage?.key ?? null);
-    }
-    if (activeStage && activeStage.key !== currentStageKeyRef.current) {
-      resetStageTimer(activeStage.key);
-    } else if (sessionState === 'IN_PROGRESS' && stageStartTimeRef.current === null) {
-      resetStageTimer(activeStage?.key ?? null);
+      applyStageTimerState(timerState);
+      return;
     }
     if (activeStage) {
       appendStageFrame(activeStage.key);
     }
     if (stage.completed) {
-      if (!analysisTimerRef.current) {
-        finishSession();
-      }
+      applyStageTimerState(stageTimer.finish(frameTime));
       return;
     }
     if (activeStage) {
-      const idx = CHALLENGES.findIndex((challenge) => challenge.key === activeStage.key);
+      const idx = challengesRef.current.findIndex((challenge) => challenge.key === activeStage.key);
       if (idx >= 0) {
         setCurrentChallengeIndex(idx);
       }
     }
-  }, [analyzeBackgroundUniformity, captureFullFrame, captureKeyFrame, captureUploadFrame, computeBrightnessScore, detectUniformLighting, estimateBlurScore, evaluatePixelResolution, failSession, finishSession, handleStageCompleted, isMobileHandoff, resetStageTimer, sessionState]);
+  }, [applyStageTimerState, captureAlignedFrame, captureFullFrame, captureKeyFrame, captureKeyFrameBitmap, captureUploadFrame, complianceLimits, failSession, isMobileHandoff, measureKeyFrameQuality]);
+
+  // startedAt 为定位放行那一帧的采集时间，第一个动作从此开始计时
+  const startChallenges = useCallback((startedAt = performance.now()) => {
+    setSessionState('IN_PROGRESS');
+    setInstructionText(challengesRef.current[0]?.instruction ?? "");
+    setCurrentChallengeIndex(0);
+    const firstKey = challengesRef.current[0]?.key ?? null;
+    if (firstKey) {
+      stageFrameBufferRef.current[firstKey] = [];
+    }
+    applyStageTimerState(stageTimerRef.current.start(firstKey, startedAt));
+  }, [applyStageTimerState]);
+
+  // 定位阶段只看人脸框位置，不推进动作；放行时重启引擎会话，丢弃定位期间累积的动作状态。
+  // requirePositioning 为 false 时跳过位置判定，但五官被遮挡时同样不开始动作
+  const handlePositioningResult = useCallback((result: ProcessFrameResult) => {
+    const video = videoRef.current;
+    const mask = maskRef.current;
+    setMultiFaceWarning(Boolean(result.multiFaceDetected));
+    // 定位期间引擎会话可能因换人或提前做完动作而结束，重新开始以继续拿到检测结果
+    if (result.stage.failed || result.stage.completed) {
+      engineRef.current?.startSession(challengePlanRef.current);
+    }
+    // 五官被遮挡时不允许开始动作
+    const occlusion = describeOcclusion(result.metrics?.occlusion);
+    if (occlusion) {
+      positioningGateRef.current.reset();
+      setPositioning(null);
+      setInstructionText(occlusion);
+      return;
+    }
+    if (!requirePositioning) {
+      engineRef.current?.startSession(challengePlanRef.current);
+      startChallenges(result.frame.timestampMs);
+      return;
+    }
+    if (!video || !mask) return;
+    const maskRect = mask.getBoundingClientRect();
+    const oval = {
+      centerX: maskRect.left + maskRect.width * GUIDE_OVAL.centerX,
+      centerY: maskRect.top + maskRect.height * GUIDE_OVAL.centerY,
+      radiusX: GUIDE_OVAL.radiusX,
+      radiusY: GUIDE_OVAL.radiusY,
+    };
+    const face: ScreenRect | null = result.detection
+      ? mapVideoBoxToScreen(result.detection.bbox, {
+        videoWidth: video.videoWidth,
+        videoHeight: video.videoHeight,
+        element: video.getBoundingClientRect(),
+        fit: 'cover',
+        mirrored: true,
+      })
+      : null;
+    const state = positioningGateRef.current.update(face, oval, result.frame.timestampMs);
+    setPositioning(state);
+    setInstructionText(POSITIONING_GUIDANCE_TEXT[state.guidance]);
+    if (!state.ready) return;
+    positioningGateRef.current.reset();
+    setPositioning(null);
+    engineRef.current?.startSession(challengePlanRef.current);
+    startChallenges(result.frame.timestampMs);
+  }, [requirePositioning, startChallenges]);
 
   useEffect(() => {
     if (!isCameraActive) return;
     let cancelled = false;
-    const loop = () => {
+    const schedule = () => {
+      if (cancelled) return;
+      cancelInferenceRef.current = scheduleVideoFrame(videoRef.current, onFrame);
+    };
+    const onFrame = (timing: FrameTiming) => {
       if (cancelled) return;
       if (
-        sessionState !== 'IN_PROGRESS' ||
+        (sessionState !== 'IN_PROGRESS' && sessionState !== 'POSITIONING') ||
         !isEngineReady ||
         !videoRef.current ||
         !engineRef.current
       ) {
-        inferenceRafRef.current = requestAnimationFrame(loop);
+        schedule();
         return;
       }
-      if (completionDelayRef.current || isStageCooldownRef.current) {
+      if (stageTimerRef.current.isHolding()) {
         const pendingKey = completedStageKeyRef.current;
         if (pendingKey) {
           appendStageFrame(pendingKey);
         }
-        inferenceRafRef.current = requestAnimationFrame(loop);
+        schedule();
         return;
       }
-      if (engineBusyRef.current) {
-        inferenceRafRef.current = requestAnimationFrame(loop);
+      if (engineBusyRef.current || isSameVideoFrame(timing, lastFrameTimingRef.current)) {
+        schedule();
         return;
       }
       engineBusyRef.current = true;
-      engineRef.current.processFrame(videoRef.current)
-        .then(handleLivenessResult)
+      lastFrameTimingRef.current = timing;
+      engineRef.current.processFrame(videoRef.current, timing)
+        .then(sessionState === 'POSITIONING' ? handlePositioningResult : handleLivenessResult)
         .catch((err) => console.error('Liveness inference failed', err))
         .finally(() => {
-          const now = performance.now();
+          // 按帧的采集时间统计算法帧率
+          const now = timing.timestampMs;
           if (fpsLastTimeRef.current === null) {
             fpsLastTimeRef.current = now;
           }
@@ -1277,75 +1250,75 @@ const FaceLiveness: React.FC = () => {
             fpsLastTimeRef.current = now;
           }
           engineBusyRef.current = false;
-          if (!cancelled) {
-            inferenceRafRef.current = requestAnimationFrame(loop);
-          }
+          schedule();
         });
     };
 
-    inferenceRafRef.current = requestAnimationFrame(loop);
+    schedule();
     return () => {
       cancelled = true;
-      if (inferenceRafRef.current) {
-        cancelAnimationFrame(inferenceRafRef.current);
-        inferenceRafRef.current = null;
+      if (cancelInferenceRef.current) {
+        cancelInferenceRef.current();
+        cancelInferenceRef.current = null;
       }
     };
-  }, [handleLivenessResult, isCameraActive, isEngineReady, sessionState]);
+  }, [handleLivenessResult, handlePositioningResult, isCameraActive, isEngineReady, sessionState]);
 
   const runLivenessSession = async () => {
     if (!isCameraActive || !engineRef.current) return;
+    const plan = resolveChallengePlan({ challengePlan: challengePlanProp, challengeSeed, challengeStages });
+    challengePlanRef.current = plan;
+    challengesRef.current = buildChallenges(plan.stages);
+    setChallengePlan(plan);
     setResult(null);
-    setEvidenceMedia(Array(CHALLENGES.length).fill(''));
-    evidenceMediaRef.current = Array(CHALLENGES.length).fill('');
+    setEvidenceMedia(Array(challengesRef.current.length).fill(''));
+    evidenceMediaRef.current = Array(challengesRef.current.length).fill('');
     pendingGifPromisesRef.current = [];
     artifactsSavedRef.current = false;
+    sessionSpoofProbabilityRef.current = null;
+    sessionScreenReplayScoreRef.current = null;
+    failureReasonRef.current = null;
+    setOcclusionPrompt(null);
+    isOccludedRef.current = false;
+    engineConfigRef.current = null;
+    referenceMatchRef.current = null;
+    releaseKeyFrameBitmap();
     setCurrentChallengeIndex(0);
     setIsChallengePassing(false);
     setIsStageCooldown(false);
     setIsCompletionDelay(false);
-    isStageCooldownRef.current = false;
-    completionDelayRef.current = false;
     completedStageKeyRef.current = null;
-    stageStartTimesRef.current = {} as Record<LivenessStageKey, number>;
+    stageTimerRef.current.reset();
     setInstructionText("Please Waiting");
     setIsEngineReady(false);
     setIsLoadingModels(true);
     setAlgoFps(null);
     fpsCounterRef.current = 0;
     fpsLastTimeRef.current = null;
+    lastFrameTimingRef.current = null;
     setMultiFaceWarning(false);
     setStageProgress(1);
     setKeyFrameImage(null);
     keyFrameScoreRef.current = -Infinity;
-    stageFrameBufferRef.current = {
-      nod: [],
-      shake: [],
-      blink: [],
-      mouth: [],
-    };
+    keyFrameOriginalRef.current = null;
+    keyFrameAlignedRef.current = null;
+    keyFrameFullRef.current = null;
+    stageFrameBufferRef.current = {};
     engineRef.current.stopSession();
-    if (stageCooldownRef.current) {
-      clearTimeout(stageCooldownRef.current);
-      stageCooldownRef.current = null;
-    }
-    if (completionDelayTimerRef.current) {
-      clearTimeout(completionDelayTimerRef.current);
-      completionDelayTimerRef.current = null;
-    }
     if (analysisTimerRef.current) {
       clearTimeout(analysisTimerRef.current);
       analysisTimerRef.current = null;
     }
     setSessionState('LOADING');
+    setModelLoadProgress(null);
     try {
-      await engineRef.current.warmup();
-      engineRef.current.startSession();
-      setSessionState('IN_PROGRESS');
-      setInstructionText("Nod Head");
+      await engineRef.current.warmup(setModelLoadProgress);
+      engineRef.current.startSession(plan);
       setIsEngineReady(true);
-      setCurrentChallengeIndex(0);
-      resetStageTimer(CHALLENGES[0]?.key ?? null);
+      positioningGateRef.current.reset();
+      setPositioning(null);
+      setSessionState('POSITIONING');
+      setInstructionText(POSITIONING_GUIDANCE_TEXT.NO_FACE);
     } catch (err) {
       console.error('Failed to initialize liveness session', err);
       const reason = err instanceof Error ? err.message : String(err);
@@ -1354,6 +1327,7 @@ const FaceLiveness: React.FC = () => {
       engineRef.current.stopSession();
       setIsEngineReady(false);
     }
+    setModelLoadProgress(null);
     setIsLoadingModels(false);
   };
 
@@ -1363,9 +1337,10 @@ const FaceLiveness: React.FC = () => {
       ? 'bg-orange-500'
       : 'bg-rose-500';
 
+  const maskGradient = `radial-gradient(ellipse ${GUIDE_OVAL.radiusX}px ${GUIDE_OVAL.radiusY}px at ${GUIDE_OVAL.centerX * 100}% ${GUIDE_OVAL.centerY * 100}%, transparent 98%, black 100%)`;
   const maskStyle = {
-    WebkitMaskImage: 'radial-gradient(ellipse 130px 165px at 50% 45%, transparent 98%, black 100%)',
-    maskImage: 'radial-gradient(ellipse 130px 165px at 50% 45%, transparent 98%, black 100%)',
+    WebkitMaskImage: maskGradient,
+    maskImage: maskGradient,
   } as const;
 
   return (
@@ -1435,11 +1410,11 @@ const FaceLiveness: React.FC = () => {
                    <div className="absolute inset-0 pointer-events-none">
                        {/* White mask outside the guide ring */}
                        <div className="absolute inset-0 z-20">
-                           <div className="absolute inset-0 bg-white/95" style={maskStyle}></div>
+                           <div ref={maskRef} className="absolute inset-0 bg-white/95" style={maskStyle}></div>
                        </div>
                        {/* Face Guide Ring removed */}
 
-                       {sessionState === 'IN_PROGRESS' && multiFaceWarning && (
+                       {(sessionState === 'IN_PROGRESS' || sessionState === 'POSITIONING') && multiFaceWarning && (
                          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 pointer-events-none">
                            <div className="px-4 py-2 rounded-full bg-rose-600/90 text-white text-xs font-semibold shadow-lg">
                              Multiple faces detected. Please keep only one person in frame.
@@ -1447,6 +1422,14 @@ const FaceLiveness: React.FC = () => {
                        </div>
                        )}
 
+                       {sessionState === 'IN_PROGRESS' && !multiFaceWarning && occlusionPrompt && (
+                         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 pointer-events-none">
+                           <div className="px-4 py-2 rounded-full bg-amber-500/90 text-white text-xs font-semibold shadow-lg">
+                             {occlusionPrompt}
+                           </div>
+                       </div>
+                       )}
+
                        {/* Instruction Text below center cutout */}
                        <div className="absolute left-1/2 top-[78%] -translate-x-1/2 z-40 flex items-center justify-center">
                            {sessionState === 'READY' && instructionText && (
@@ -1465,6 +1448,38 @@ const FaceLiveness: React.FC = () => {
                                    <h2 className="text-2xl font-display font-bold text-slate-800 text-center whitespace-nowrap">
                                      {instructionText || 'Please Waiting'}
                                    </h2>
+                                   {modelLoadProgress && (
+                                     <div className="mt-2 w-56">
+                                       <div className="h-1.5 rounded-full bg-slate-200 overflow-hidden">
+                                         <div
+                                           className="h-full bg-blue-500 transition-all duration-200"
+                                           style={{ width: `${Math.round(modelLoadProgress.progress * 100)}%` }}
+                                         />
+                                       </div>
+                                       <p className="mt-1 text-xs text-slate-500 text-center whitespace-nowrap">
+                                         {describeModelLoadProgress(modelLoadProgress)} · {Math.round(modelLoadProgress.progress * 100)}%
+                                       </p>
+                                     </div>
+                                   )}
+                               </div>
+                           )}
+
+                           {sessionState === 'POSITIONING' && (
+                               <div className="flex flex-col items-center animate-in zoom-in duration-300 bg-white/95 px-4 py-2 rounded-2xl shadow-sm">
+                                   <div className="mb-2 p-2 rounded-full bg-slate-100 border border-slate-200 shadow-sm">
+                                     <ScanFace className={`w-5 h-5 ${positioning?.guidance === 'READY' ? 'text-emerald-500' : 'text-blue-500'}`} />
+                                   </div>
+                                   <h2 className="text-2xl font-display font-bold text-slate-800 text-center whitespace-nowrap">
+                                     {instructionText}
+                                   </h2>
+                                   {positioning && positioning.holdProgress > 0 && (
+                                     <div className="mt-2 w-40 h-1.5 rounded-full bg-slate-200 overflow-hidden">
+                                       <div
+                                         className="h-full bg-emerald-500 transition-all duration-100"
+                                         style={{ width: `${Math.round(positioning.holdProgress * 100)}%` }}
+                                       />
+                                     </div>
+                                   )}
                                </div>
                            )}
 
@@ -1485,11 +1500,11 @@ const FaceLiveness: React.FC = () => {
                                            {(isStageCooldown || isChallengePassing) ? (
                                                <Check className="w-5 h-5 text-emerald-500" />
                                            ) : (
-                                               React.createElement(CHALLENGES[currentChallengeIndex].icon, { className: "w-5 h-5 text-blue-500" })
+                                               React.createElement(challenges[currentChallengeIndex].icon, { className: "w-5 h-5 text-blue-500" })
                                            )}
                                        </div>
                                        <h2 className="text-2xl font-display font-bold text-slate-800 text-center whitespace-nowrap">
-                                           {isStageCooldown ? "Passed" : (isChallengePassing ? "Passed" : CHALLENGES[currentChallengeIndex].instruction)}
+                                           {isStageCooldown ? "Passed" : (isChallengePassing ? "Passed" : challenges[currentChallengeIndex].instruction)}
                                        </h2>
                                      </>
                                    )}
@@ -0,0 +1,226 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CheckCircle2, Download, Loader2, Upload, XCircle } from 'lucide-react';
+import {
+  LIVENESS_STAGES,
+  type ChallengePlan,
+  type LivenessEngineOptions,
+  type LivenessStageKey,
+  type ProcessFrameResult,
+} from '../services/livenessEngine';
+import { createLivenessEngine, type LivenessEngineHandle } from '../services/livenessWorkerClient';
+import {
+  DEFAULT_OFFLINE_FRAME_RATE,
+  readImageFrames,
+  readVideoFrames,
+  runOfflineAnalysis,
+  type OfflineAnalysisResult,
+} from '../services/offlineAnalysis';
+import type { ComplianceLimits } from '../services/photoCompliance';
+
+interface OfflineAnalysisProps {
+  /** 录像对应的动作序列，默认填入界面上的输入框，可在界面上修改 */
+  challengePlan?: ChallengePlan;
+  /** 注册自定义动作的模块地址，会在推理 Worker 中再次 import；仅在挂载时读取 */
+  stageModuleUrls?: string[];
+  /** 透传给 LivenessEngine 的配置；引擎只在挂载时创建，之后仅 config 的变化会通过 updateConfig 生效 */
+  engineOptions?: LivenessEngineOptions;
+  /** 关键帧证件照合规判定的阈值覆盖 */
+  complianceLimits?: Partial<ComplianceLimits>;
+  /** 图片序列按该帧率计时，默认 30；视频使用每帧自身的 mediaTime */
+  frameRate?: number;
+}
+
+const parseStages = (text: string): LivenessStageKey[] =>
+  text.split(/[\s,]+/).map((key) => key.trim()).filter(Boolean);
+
+// 多张图片按文件名自然排序，frame-2 排在 frame-10 之前
+const sortByName = (files: File[]) =>
+  files.slice().sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+const OfflineAnalysis: React.FC<OfflineAnalysisProps> = ({
+  challengePlan,
+  stageModuleUrls,
+  engineOptions,
+  complianceLimits,
+  frameRate = DEFAULT_OFFLINE_FRAME_RATE,
+}) => {
+  const [stagesText, setStagesText] = useState(() =>
+    (challengePlan?.stages ?? LIVENESS_STAGES.map((stage) => stage.key)).join(', '),
+  );
+  const [files, setFiles] = useState<File[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [lastFrame, setLastFrame] = useState<ProcessFrameResult | null>(null);
+  const [result, setResult] = useState<OfflineAnalysisResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const engineRef = useRef<LivenessEngineHandle | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // 结果中附带引擎轨迹，便于用 replayLivenessTrace 复查
+    const engine = createLivenessEngine({ stageModuleUrls, ...engineOptions, traceRecording: true });
+    engineRef.current = engine;
+    return () => {
+      abortRef.current?.abort();
+      engine.dispose();
+      if (engineRef.current === engine) {
+        engineRef.current = null;
+      }
+    };
+  }, []);
+
+  // 按内容比较，调用方每次渲染传入新的对象也不会重复更新
+  const engineConfig = engineOptions?.config;
+  const engineConfigKey = JSON.stringify(engineConfig ?? null);
+  useEffect(() => {
+    if (engineConfig) {
+      engineRef.current?.updateConfig(engineConfig);
+    }
+  }, [engineConfigKey]);
+
+  const handleFilesChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(sortByName(Array.from(event.target.files ?? [])));
+    setResult(null);
+    setError(null);
+  }, []);
+
+  const runAnalysis = useCallback(async () => {
+    const engine = engineRef.current;
+    if (!engine || !files.length) return;
+    const video = files.find((file) => file.type.startsWith('video/'));
+    if (video && files.length > 1) {
+      setError('Select one video file or a set of images, not both.');
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResult(null);
+    setError(null);
+    setLastFrame(null);
+    try {
+      const frames = video ? readVideoFrames(video) : readImageFrames(files, { frameIntervalMs: 1000 / frameRate });
+      const output = await runOfflineAnalysis(engine, frames, {
+        challengePlan: { ...challengePlan, stages: parseStages(stagesText) },
+        complianceLimits,
+        onFrame: setLastFrame,
+        signal: controller.signal,
+      });
+      setResult(output);
+      console.log('[LIVENESS_RESULT]', JSON.stringify(output));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setIsRunning(false);
+    }
+  }, [challengePlan, complianceLimits, files, frameRate, stagesText]);
+
+  const cancelAnalysis = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const downloadResult = useCallback(() => {
+    if (!result) return;
+    const blob = new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `liveness-offline-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [result]);
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white border border-slate-200 rounded-2xl p-6 shadow-sm space-y-5">
+      <div>
+        <h2 className="text-xl font-display font-bold text-slate-800">Offline Analysis</h2>
+        <p className="text-sm text-slate-500 mt-1">
+          Run a recorded video or an image sequence through the liveness engine frame by frame.
+        </p>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-slate-700">Challenge stages (in recorded order)</span>
+        <input
+          type="text"
+          value={stagesText}
+          onChange={(event) => setStagesText(event.target.value)}
+          disabled={isRunning}
+          className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm font-mono"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm font-medium text-slate-700">Recording</span>
+        <input
+          type="file"
+          accept="video/*,image/*"
+          multiple
+          onChange={handleFilesChange}
+          disabled={isRunning}
+          className="block w-full text-sm text-slate-600"
+        />
+        {files.length > 0 && (
+          <span className="text-xs text-slate-500">
+            {files.length === 1 ? files[0].name : `${files.length} files`}
+          </span>
+        )}
+      </label>
+
+      <div className="flex gap-3">
+        {isRunning ? (
+          <button
+            type="button"
+            onClick={cancelAnalysis}
+            className="inline-flex items-center gap-2 rounded-lg bg-slate-200 px-4 py-2 text-sm font-medium text-slate-800"
+          >
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => void runAnalysis()}
+            disabled={!files.length}
+            className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Analyze Recording
+          </button>
+        )}
+        {result && (
+          <button
+            type="button"
+            onClick={downloadResult}
+            className="inline-flex items-center gap-2 rounded-lg border border-slate-300 px-4 py-2 text-sm font-medium text-slate-700"
+          >
+            <Download className="w-4 h-4" />
+            Download JSON
+          </button>
+        )}
+      </div>
+
+      {lastFrame && (
+        <p className="text-xs font-mono text-slate-500">
+          frame {lastFrame.frame.frameNumber ?? '-'} · {(lastFrame.frame.timestampMs / 1000).toFixed(2)}s · stage {lastFrame.stage.currentStage?.key ?? '-'}
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <div className={`flex items-center gap-2 rounded-lg px-4 py-3 text-sm font-medium ${result.status === 'PASS' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+          {result.status === 'PASS' ? <CheckCircle2 className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+          {result.status === 'PASS' ? 'Passed' : `Failed: ${result.failureReason ?? 'UNKNOWN'}`}
+          <span className="ml-auto text-xs font-mono">{result.trace?.frames.length ?? 0} frames</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineAnalysis;
@@ -0,0 +1,95 @@
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+// 模板坐标定义在 size×size 的画布上，输出其它尺寸时等比缩放
+export interface AlignmentTemplate {
+  size: number;
+  points: FacePoint[];
+}
+
+export type AlignmentTemplateName = 'arcface' | 'portrait';
+
+// ArcFace 标准 112×112 模板：左眼、右眼、鼻尖、左嘴角、右嘴角
+const ARCFACE_POINTS: FacePoint[] = [
+  { x: 38.2946, y: 51.6963 },
+  { x: 73.5318, y: 51.5014 },
+  { x: 56.0252, y: 71.7366 },
+  { x: 41.5493, y: 92.3655 },
+  { x: 70.7299, y: 92.2041 },
+];
+
+// 证件照模板：同样的五官比例放在 224×224 画布中上部，保留头发、下巴和肩部
+const PORTRAIT_OFFSET = { x: 56, y: 40 };
+
+export const ALIGNMENT_TEMPLATES: Record<AlignmentTemplateName, AlignmentTemplate> = {
+  arcface: { size: 112, points: ARCFACE_POINTS },
+  portrait: {
+    size: 224,
+    points: ARCFACE_POINTS.map((point) => ({ x: point.x + PORTRAIT_OFFSET.x, y: point.y + PORTRAIT_OFFSET.y })),
+  },
+};
+
+// x' = a·x − b·y + tx, y' = b·x + a·y + ty
+export type SimilarityTransform = [number, number, number, number];
+
+// 最小二乘求解旋转 + 等比缩放 + 平移，将 src 关键点映射到 dst 模板
+export function estimateSimilarityTransform(src: FacePoint[], dst: FacePoint[]): SimilarityTransform | null {
+  const count = Math.min(src.length, dst.length);
+  if (count < 2) return null;
+  let srcMeanX = 0;
+  let srcMeanY = 0;
+  let dstMeanX = 0;
+  let dstMeanY = 0;
+  for (let i = 0; i < count; i += 1) {
+    srcMeanX += src[i].x;
+    srcMeanY += src[i].y;
+    dstMeanX += dst[i].x;
+    dstMeanY += dst[i].y;
+  }
+  srcMeanX /= count;
+  srcMeanY /= count;
+  dstMeanX /= count;
+  dstMeanY /= count;
+  let dot = 0;
+  let cross = 0;
+  let norm = 0;
+  for (let i = 0; i < count; i += 1) {
+    const sx = src[i].x - srcMeanX;
+    const sy = src[i].y - srcMeanY;
+    const dx = dst[i].x - dstMeanX;
+    const dy = dst[i].y - dstMeanY;
+    dot += sx * dx + sy * dy;
+    cross += sx * dy - sy * dx;
+    norm += sx * sx + sy * sy;
+  }
+  if (norm <= 1e-6) return null;
+  const a = dot / norm;
+  const b = cross / norm;
+  return [a, b, dstMeanX - a * srcMeanX + b * srcMeanY, dstMeanY - b * srcMeanX - a * srcMeanY];
+}
+
+// 按模板把人脸仿射到 size×size 画布上，调用方需先设置好画布尺寸
+export function drawAlignedFace(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource,
+  kps: FacePoint[],
+  size: number,
+  template: AlignmentTemplate = ALIGNMENT_TEMPLATES.arcface,
+) {
+  const scale = size / template.size;
+  const transform = estimateSimilarityTransform(
+    kps.slice(0, 5),
+    template.points.map((point) => ({ x: point.x * scale, y: point.y * scale })),
+  );
+  if (!transform) return false;
+  const [a, b, tx, ty] = transform;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, size, size);
+  ctx.setTransform(a, b, -b, a, tx, ty);
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+  return true;
+}
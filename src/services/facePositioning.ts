@@ -0,0 +1,156 @@
+export interface ScreenRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// 屏幕坐标（CSS 像素）下的引导椭圆
+export interface GuideOval {
+  centerX: number;
+  centerY: number;
+  radiusX: number;
+  radiusY: number;
+}
+
+export interface VideoDisplay {
+  videoWidth: number;
+  videoHeight: number;
+  /** video 元素在屏幕上的区域 */
+  element: ScreenRect;
+  /** object-fit 方式：cover 会裁掉溢出部分，contain 会留边 */
+  fit: 'cover' | 'contain';
+  /** 是否水平镜像显示（自拍预览） */
+  mirrored: boolean;
+}
+
+export type PositioningGuidance =
+  | 'NO_FACE'
+  | 'MOVE_CLOSER'
+  | 'MOVE_BACK'
+  | 'MOVE_LEFT'
+  | 'MOVE_RIGHT'
+  | 'MOVE_UP'
+  | 'MOVE_DOWN'
+  | 'HOLD_STILL'
+  | 'READY';
+
+export interface PositioningOptions {
+  /** 人脸框高度占椭圆高度的合理区间 */
+  minSizeRatio: number;
+  maxSizeRatio: number;
+  /** 人脸中心偏离椭圆中心的容差，按椭圆半轴归一化 */
+  centerTolerance: number;
+  /** 相邻两帧人脸中心位移的容差，按椭圆半轴归一化 */
+  stabilityTolerance: number;
+  /** 连续满足条件多久后放行（毫秒） */
+  holdMs: number;
+}
+
+export interface PositioningEvaluation {
+  guidance: PositioningGuidance;
+  /** 人脸中心相对椭圆中心的偏移，按半轴归一化；向右、向下为正 */
+  offsetX: number | null;
+  offsetY: number | null;
+  sizeRatio: number | null;
+}
+
+export interface PositioningState extends PositioningEvaluation {
+  ready: boolean;
+  /** 已连续满足条件的时长 0~1，相对 holdMs */
+  holdProgress: number;
+}
+
+export const DEFAULT_POSITIONING_OPTIONS: PositioningOptions = {
+  minSizeRatio: 0.55,
+  maxSizeRatio: 0.9,
+  centerTolerance: 0.2,
+  stabilityTolerance: 0.06,
+  holdMs: 800,
+};
+
+// 把视频像素坐标下的人脸框映射到屏幕坐标，考虑 object-fit 裁剪/留边与镜像
+export function mapVideoBoxToScreen(bbox: [number, number, number, number], display: VideoDisplay): ScreenRect | null {
+  const { videoWidth, videoHeight, element } = display;
+  if (!videoWidth || !videoHeight || !element.width || !element.height) return null;
+  const scaleX = element.width / videoWidth;
+  const scaleY = element.height / videoHeight;
+  const scale = display.fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const offsetX = (element.width - videoWidth * scale) / 2;
+  const offsetY = (element.height - videoHeight * scale) / 2;
+  const [x1, y1, x2, y2] = bbox;
+  const left = offsetX + x1 * scale;
+  const right = offsetX + x2 * scale;
+  return {
+    left: element.left + (display.mirrored ? element.width - right : left),
+    top: element.top + offsetY + y1 * scale,
+    width: (x2 - x1) * scale,
+    height: (y2 - y1) * scale,
+  };
+}
+
+// 先看距离再看居中：离得太远时左右偏移的提示意义不大
+export function evaluateFacePosition(
+  face: ScreenRect | null,
+  oval: GuideOval,
+  options: PositioningOptions = DEFAULT_POSITIONING_OPTIONS,
+): PositioningEvaluation {
+  if (!face || oval.radiusX <= 0 || oval.radiusY <= 0) {
+    return { guidance: 'NO_FACE', offsetX: null, offsetY: null, sizeRatio: null };
+  }
+  const offsetX = (face.left + face.width / 2 - oval.centerX) / oval.radiusX;
+  const offsetY = (face.top + face.height / 2 - oval.centerY) / oval.radiusY;
+  const sizeRatio = face.height / (oval.radiusY * 2);
+  const evaluation = { offsetX, offsetY, sizeRatio };
+  if (sizeRatio < options.minSizeRatio) return { guidance: 'MOVE_CLOSER', ...evaluation };
+  if (sizeRatio > options.maxSizeRatio) return { guidance: 'MOVE_BACK', ...evaluation };
+  if (Math.abs(offsetX) > options.centerTolerance || Math.abs(offsetY) > options.centerTolerance) {
+    // 提示按屏幕方向给出：人脸在椭圆左侧就提示向右移
+    const guidance = Math.abs(offsetX) >= Math.abs(offsetY)
+      ? (offsetX < 0 ? 'MOVE_RIGHT' : 'MOVE_LEFT')
+      : (offsetY < 0 ? 'MOVE_DOWN' : 'MOVE_UP');
+    return { guidance, ...evaluation };
+  }
+  return { guidance: 'READY', ...evaluation };
+}
+
+// 位置满足条件且保持稳定 holdMs 后放行；任何一帧不满足都会重新计时
+export class PositioningGate {
+  private options: PositioningOptions;
+  private holdStart: number | null = null;
+  private lastOffset: { x: number; y: number } | null = null;
+
+  constructor(options: Partial<PositioningOptions> = {}) {
+    this.options = { ...DEFAULT_POSITIONING_OPTIONS, ...options };
+  }
+
+  update(face: ScreenRect | null, oval: GuideOval, timestampMs: number): PositioningState {
+    const evaluation = evaluateFacePosition(face, oval, this.options);
+    const previous = this.lastOffset;
+    this.lastOffset = evaluation.offsetX === null || evaluation.offsetY === null
+      ? null
+      : { x: evaluation.offsetX, y: evaluation.offsetY };
+    if (evaluation.guidance !== 'READY') {
+      this.holdStart = null;
+      return { ...evaluation, ready: false, holdProgress: 0 };
+    }
+    const moved = !previous || !this.lastOffset
+      || Math.hypot(this.lastOffset.x - previous.x, this.lastOffset.y - previous.y) > this.options.stabilityTolerance;
+    if (moved) {
+      this.holdStart = null;
+      return { ...evaluation, guidance: 'HOLD_STILL', ready: false, holdProgress: 0 };
+    }
+    if (this.holdStart === null) {
+      this.holdStart = timestampMs;
+    }
+    const holdProgress = this.options.holdMs > 0
+      ? Math.min(1, (timestampMs - this.holdStart) / this.options.holdMs)
+      : 1;
+    return { ...evaluation, ready: holdProgress >= 1, holdProgress };
+  }
+
+  reset() {
+    this.holdStart = null;
+    this.lastOffset = null;
+  }
+}
@@ -0,0 +1,227 @@
+// 张量像素 (x, y) 的中心对应源图坐标 origin + (x + 0.5) * step，源图范围外按黑色像素填充
+export interface TensorSampling {
+  /** 输出张量宽高；宽度需为 4 的倍数，每个输出纹素打包 4 个相邻像素 */
+  width: number;
+  height: number;
+  originX: number;
+  originY: number;
+  stepX: number;
+  stepY: number;
+  /** 归一化：(像素值 - mean) * scale，像素值范围 0~255 */
+  mean: number;
+  scale: number;
+}
+
+type GpuCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+const VERTEX_SHADER = `#version 300 es
+void main() {
+  vec2 position = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(position * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+// 输出纹理为 (W/4)×(3H) 的 RGBA32F，按行读出即是 NCHW 排布
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp int;
+uniform sampler2D u_source;
+uniform vec2 u_sourceSize;
+uniform vec2 u_origin;
+uniform vec2 u_step;
+uniform int u_height;
+uniform float u_lod;
+uniform float u_mean;
+uniform float u_scale;
+out vec4 outColor;
+
+float channelValue(float x, float y, int channel) {
+  vec2 src = u_origin + (vec2(x, y) + 0.5) * u_step;
+  if (src.x < 0.0 || src.y < 0.0 || src.x >= u_sourceSize.x || src.y >= u_sourceSize.y) {
+    return -u_mean * u_scale;
+  }
+  vec4 color = textureLod(u_source, src / u_sourceSize, u_lod);
+  return (color[channel] * 255.0 - u_mean) * u_scale;
+}
+
+void main() {
+  int row = int(gl_FragCoord.y);
+  int channel = row / u_height;
+  float y = float(row - channel * u_height);
+  float x = floor(gl_FragCoord.x) * 4.0;
+  outColor = vec4(
+    channelValue(x, y, channel),
+    channelValue(x + 1.0, y, channel),
+    channelValue(x + 2.0, y, channel),
+    channelValue(x + 3.0, y, channel)
+  );
+}`;
+
+const UNIFORM_NAMES = [
+  'u_source',
+  'u_sourceSize',
+  'u_origin',
+  'u_step',
+  'u_height',
+  'u_lod',
+  'u_mean',
+  'u_scale',
+] as const;
+
+type UniformName = (typeof UNIFORM_NAMES)[number];
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error('无法创建 WebGL 着色器');
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`WebGL 着色器编译失败: ${log ?? ''}`);
+  }
+  return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext) {
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error('无法创建 WebGL 程序');
+  }
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`WebGL 程序链接失败: ${log ?? ''}`);
+  }
+  return program;
+}
+
+function createTexture(gl: WebGL2RenderingContext) {
+  const texture = gl.createTexture();
+  if (!texture) {
+    throw new Error('无法创建 WebGL 纹理');
+  }
+  return texture;
+}
+
+// 在 GPU 上完成缩放、裁剪与归一化，只把最终的 float32 张量读回
+export class WebGLTensorPreprocessor {
+  private canvas: GpuCanvas;
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private sourceTexture: WebGLTexture;
+  private outputTexture: WebGLTexture;
+  private framebuffer: WebGLFramebuffer;
+  private outputSize: [number, number] = [0, 0];
+  private uniforms: Record<UniformName, WebGLUniformLocation | null>;
+
+  constructor() {
+    this.canvas = typeof document === 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+    const gl = this.canvas.getContext('webgl2', {
+      alpha: false,
+      antialias: false,
+      depth: false,
+      stencil: false,
+      premultipliedAlpha: false,
+      preserveDrawingBuffer: false,
+    }) as WebGL2RenderingContext | null;
+    if (!gl) {
+      throw new Error('当前环境不支持 WebGL2');
+    }
+    // 浮点纹理作为渲染目标并用 readPixels 读回依赖该扩展
+    if (!gl.getExtension('EXT_color_buffer_float')) {
+      throw new Error('当前环境不支持 EXT_color_buffer_float');
+    }
+    this.gl = gl;
+    this.program = createProgram(gl);
+    this.uniforms = Object.fromEntries(
+      UNIFORM_NAMES.map((name) => [name, gl.getUniformLocation(this.program, name)]),
+    ) as Record<UniformName, WebGLUniformLocation | null>;
+    this.sourceTexture = createTexture(gl);
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    this.outputTexture = createTexture(gl);
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) {
+      throw new Error('无法创建 WebGL 帧缓冲');
+    }
+    this.framebuffer = framebuffer;
+  }
+
+  process(source: TexImageSource, sourceWidth: number, sourceHeight: number, sampling: TensorSampling) {
+    const { gl } = this;
+    if (gl.isContextLost()) {
+      throw new Error('WebGL 上下文已丢失');
+    }
+    if (sampling.width % 4 !== 0) {
+      throw new Error(`GPU 预处理要求张量宽度为 4 的倍数: ${sampling.width}`);
+    }
+    const outputWidth = sampling.width / 4;
+    const outputHeight = sampling.height * 3;
+    this.ensureOutput(outputWidth, outputHeight);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.generateMipmap(gl.TEXTURE_2D);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+    gl.viewport(0, 0, outputWidth, outputHeight);
+    gl.useProgram(this.program);
+    gl.uniform1i(this.uniforms.u_source, 0);
+    gl.uniform2f(this.uniforms.u_sourceSize, sourceWidth, sourceHeight);
+    gl.uniform2f(this.uniforms.u_origin, sampling.originX, sampling.originY);
+    gl.uniform2f(this.uniforms.u_step, sampling.stepX, sampling.stepY);
+    gl.uniform1i(this.uniforms.u_height, sampling.height);
+    // 缩小 2^k 倍时在第 k-1 级 mipmap 上做双线性，效果接近按块平均
+    gl.uniform1f(this.uniforms.u_lod, Math.max(0, Math.log2(Math.max(sampling.stepX, sampling.stepY)) - 1));
+    gl.uniform1f(this.uniforms.u_mean, sampling.mean);
+    gl.uniform1f(this.uniforms.u_scale, sampling.scale);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    const data = new Float32Array(sampling.width * sampling.height * 3);
+    gl.readPixels(0, 0, outputWidth, outputHeight, gl.RGBA, gl.FLOAT, data);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return data;
+  }
+
+  dispose() {
+    const { gl } = this;
+    gl.deleteFramebuffer(this.framebuffer);
+    gl.deleteTexture(this.outputTexture);
+    gl.deleteTexture(this.sourceTexture);
+    gl.deleteProgram(this.program);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  private ensureOutput(width: number, height: number) {
+    if (this.outputSize[0] === width && this.outputSize[1] === height) return;
+    const { gl } = this;
+    gl.bindTexture(gl.TEXTURE_2D, this.outputTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, width, height, 0, gl.RGBA, gl.FLOAT, null);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, this.outputTexture, 0);
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      this.outputSize = [0, 0];
+      throw new Error(`WebGL 帧缓冲不完整: ${status}`);
+    }
+    this.outputSize = [width, height];
+  }
+}
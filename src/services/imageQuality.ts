@@ -0,0 +1,340 @@
+export type BrightnessStatus = 'normal' | 'underexposed' | 'overexposed' | 'too bright' | 'invalid';
+
+export interface GrayImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface BrightnessMetrics {
+  /** 亮度质量分 0~100，越接近中等亮度越高 */
+  score: number;
+  status: BrightnessStatus;
+  /** 去掉两端 5% 后的平均亮度 0~100 */
+  brightness: number;
+  /** 过曝像素占比 0~1 */
+  overexposedRatio: number;
+}
+
+export interface ImageQualityInput {
+  /** RGBA 像素，与 canvas getImageData 的布局一致 */
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+  bbox: [number, number, number, number];
+  /** SCRFD 五点关键点，前两个为双眼，用于像素分辨率评分 */
+  kps?: Array<{ x: number; y: number }>;
+}
+
+export interface ImageQualityReport {
+  brightness: BrightnessMetrics | null;
+  /** 人脸框内拉普拉斯响应标准差映射到 0~100 */
+  laplacianScore: number | null;
+  /** 人脸区域缩放到固定尺寸后的拉普拉斯方差评分 0~100 */
+  clarity: number | null;
+  /** 人脸左右半边亮度一致性 0~100 */
+  uniformLighting: number | null;
+  /** 人脸以外区域模糊后的亮度一致性 0~100 */
+  backgroundUniformity: number | null;
+  /** 按双眼间距像素数评分 0~100 */
+  pixelResolution: number | null;
+}
+
+const BRIGHTNESS = {
+  clipPercent: 5,
+  overexposeGray: 240,
+  low: 30,
+  high: 70,
+  overexposeRatio: 0.1,
+};
+const LAPLACIAN_SIGMOID = { mid: 35, steep: 0.08 };
+const BLUR = { size: 200, padX: 0.2, padBottom: 0.2, maxVariance: 500 };
+const UNIFORM_LIGHTING_MARGIN = { x: 0.2, y: 0.1 };
+// 背景模糊近似 CSS blur(10px)：3 次半径 10 的盒式模糊约等于 σ≈10.5 的高斯
+const BACKGROUND = { blurRadius: 10, blurPasses: 3, padRatio: 0.2, stdDevWeight: 0.8 };
+const PIXEL_RESOLUTION = { minIod: 80, highIod: 300 };
+const LAPLACIAN_KERNEL = [0, 1, 0, 1, -4, 1, 0, 1, 0];
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function clamp(value: number, lo: number, hi: number) {
+  return value < lo ? lo : value > hi ? hi : value;
+}
+
+// 人脸框与画面求交并取整，过小时返回 null
+function clipRect(x1: number, y1: number, x2: number, y2: number, width: number, height: number) {
+  const x = Math.max(0, Math.floor(x1));
+  const y = Math.max(0, Math.floor(y1));
+  const w = Math.min(width - x, Math.ceil(x2 - x1));
+  const h = Math.min(height - y, Math.ceil(y2 - y1));
+  if (w <= 1 || h <= 1) return null;
+  return { x, y, w, h };
+}
+
+export function toGrayscale(data: Uint8ClampedArray | Uint8Array, width: number, height: number): GrayImage {
+  const area = width * height;
+  if (data.length < area * 4) {
+    throw new Error('图像质量分析输入数据长度不足');
+  }
+  const gray = new Uint8Array(area);
+  for (let i = 0, j = 0; j < area; i += 4, j += 1) {
+    gray[j] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+  return { data: gray, width, height };
+}
+
+function cropGray(image: GrayImage, rect: { x: number; y: number; w: number; h: number }): GrayImage {
+  const data = new Uint8Array(rect.w * rect.h);
+  for (let y = 0; y < rect.h; y += 1) {
+    const start = (rect.y + y) * image.width + rect.x;
+    data.set(image.data.subarray(start, start + rect.w), y * rect.w);
+  }
+  return { data, width: rect.w, height: rect.h };
+}
+
+// 双线性缩放，与 canvas drawImage 的默认插值一致
+function resampleGray(image: GrayImage, rect: { x: number; y: number; w: number; h: number }, size: number): GrayImage {
+  const data = new Uint8Array(size * size);
+  const scaleX = rect.w / size;
+  const scaleY = rect.h / size;
+  for (let y = 0; y < size; y += 1) {
+    const sy = clamp(rect.y + (y + 0.5) * scaleY - 0.5, 0, image.height - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(image.height - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < size; x += 1) {
+      const sx = clamp(rect.x + (x + 0.5) * scaleX - 0.5, 0, image.width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(image.width - 1, x0 + 1);
+      const fx = sx - x0;
+      const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+      const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+      data[y * size + x] = Math.round(top * (1 - fy) + bottom * fy);
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+// 4 邻域拉普拉斯响应的方差（Welford 在线算法），边界按最近像素延拓
+function laplacianVariance(image: GrayImage) {
+  const { data, width, height } = image;
+  let mean = 0;
+  let m2 = 0;
+  let count = 0;
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      let acc = 0;
+      let idx = 0;
+      for (let dy = -1; dy <= 1; dy += 1) {
+        const yy = clamp(y + dy, 0, height - 1);
+        for (let dx = -1; dx <= 1; dx += 1) {
+          const xx = clamp(x + dx, 0, width - 1);
+          acc += data[yy * width + xx] * LAPLACIAN_KERNEL[idx++];
+        }
+      }
+      count += 1;
+      const delta = acc - mean;
+      mean += delta / count;
+      m2 += delta * (acc - mean);
+    }
+  }
+  return count > 0 ? m2 / count : 0;
+}
+
+function boxBlurPass(src: Float32Array, dst: Float32Array, width: number, height: number, radius: number, horizontal: boolean) {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const stride = horizontal ? 1 : width;
+  for (let line = 0; line < lines; line += 1) {
+    const base = horizontal ? line * width : line;
+    let sum = 0;
+    for (let k = -radius; k <= radius; k += 1) {
+      sum += src[base + clamp(k, 0, length - 1) * stride];
+    }
+    for (let i = 0; i < length; i += 1) {
+      dst[base + i * stride] = sum / (radius * 2 + 1);
+      sum += src[base + Math.min(length - 1, i + radius + 1) * stride] - src[base + Math.max(0, i - radius) * stride];
+    }
+  }
+}
+
+function blurGray(image: GrayImage, radius: number, passes: number) {
+  const blurred = Float32Array.from(image.data);
+  const scratch = new Float32Array(blurred.length);
+  for (let pass = 0; pass < passes; pass += 1) {
+    boxBlurPass(blurred, scratch, image.width, image.height, radius, true);
+    boxBlurPass(scratch, blurred, image.width, image.height, radius, false);
+  }
+  return blurred;
+}
+
+export function computeBrightness(gray: GrayImage, bbox: [number, number, number, number]): BrightnessMetrics | null {
+  const rect = clipRect(bbox[0], bbox[1], bbox[2], bbox[3], gray.width, gray.height);
+  if (!rect) return null;
+  // 直方图代替排序求两端分位数
+  const histogram = new Uint32Array(256);
+  for (let y = rect.y; y < rect.y + rect.h; y += 1) {
+    for (let x = rect.x; x < rect.x + rect.w; x += 1) {
+      histogram[gray.data[y * gray.width + x]] += 1;
+    }
+  }
+  const total = rect.w * rect.h;
+  const lowIndex = Math.floor((BRIGHTNESS.clipPercent / 100) * (total - 1));
+  const highIndex = Math.floor(((100 - BRIGHTNESS.clipPercent) / 100) * (total - 1));
+  let pLow = 0;
+  let pHigh = 255;
+  let seen = 0;
+  let foundLow = false;
+  for (let v = 0; v < 256; v += 1) {
+    seen += histogram[v];
+    if (!foundLow && seen > lowIndex) {
+      pLow = v;
+      foundLow = true;
+    }
+    if (seen > highIndex) {
+      pHigh = v;
+      break;
+    }
+  }
+  let sum = 0;
+  let count = 0;
+  let overexposedCount = 0;
+  for (let v = 0; v < 256; v += 1) {
+    if (v >= pLow && v <= pHigh) {
+      sum += v * histogram[v];
+      count += histogram[v];
+    }
+    if (v >= BRIGHTNESS.overexposeGray) {
+      overexposedCount += histogram[v];
+    }
+  }
+  if (!count) return { score: 0, status: 'invalid', brightness: 0, overexposedRatio: 0 };
+  const brightness = (sum / count / 255) * 100;
+  const overexposedRatio = overexposedCount / total;
+  let status: BrightnessStatus = 'normal';
+  if (brightness < BRIGHTNESS.low) {
+    status = 'underexposed';
+  } else if (brightness > BRIGHTNESS.high && overexposedRatio > BRIGHTNESS.overexposeRatio) {
+    status = 'overexposed';
+  } else if (brightness > BRIGHTNESS.high) {
+    status = 'too bright';
+  }
+  return {
+    score: round2(Math.max(0, 100 - Math.abs(brightness - 50) * 2)),
+    status,
+    brightness: round2(brightness),
+    overexposedRatio: Math.round(overexposedRatio * 1000) / 1000,
+  };
+}
+
+export function computeLaplacianScore(gray: GrayImage, bbox: [number, number, number, number]) {
+  const rect = clipRect(bbox[0], bbox[1], bbox[2], bbox[3], gray.width, gray.height);
+  if (!rect) return null;
+  const sigma = Math.sqrt(Math.max(0, laplacianVariance(cropGray(gray, rect))));
+  const score = 100 / (1 + Math.exp(-LAPLACIAN_SIGMOID.steep * (sigma - LAPLACIAN_SIGMOID.mid)));
+  return Math.round(clamp(score, 0, 100));
+}
+
+// 人脸框左右、下方各外扩 20% 后缩放到 200×200，消除人脸大小对拉普拉斯方差的影响
+export function estimateBlurScore(gray: GrayImage, bbox: [number, number, number, number]) {
+  const [x1, y1, x2, y2] = bbox;
+  const faceW = x2 - x1;
+  const faceH = y2 - y1;
+  const padX = faceW * BLUR.padX;
+  const rect = clipRect(x1 - padX, y1, x2 + padX, y2 + faceH * BLUR.padBottom, gray.width, gray.height);
+  if (!rect) return null;
+  const variance = laplacianVariance(resampleGray(gray, rect, BLUR.size));
+  return round2(Math.min((variance / BLUR.maxVariance) * 100, 100));
+}
+
+// 比较人脸核心区域左右两半的平均亮度
+export function computeUniformLighting(gray: GrayImage, bbox: [number, number, number, number]) {
+  const rect = clipRect(bbox[0], bbox[1], bbox[2], bbox[3], gray.width, gray.height);
+  if (!rect) return null;
+  const marginW = Math.floor(rect.w * UNIFORM_LIGHTING_MARGIN.x);
+  const marginH = Math.floor(rect.h * UNIFORM_LIGHTING_MARGIN.y);
+  const coreW = Math.max(1, rect.w - marginW * 2);
+  const coreH = Math.max(1, rect.h - marginH * 2);
+  const mid = Math.floor(coreW / 2);
+  let leftSum = 0;
+  let rightSum = 0;
+  let leftCount = 0;
+  let rightCount = 0;
+  for (let y = 0; y < coreH; y += 1) {
+    const row = (rect.y + marginH + y) * gray.width + rect.x + marginW;
+    for (let x = 0; x < coreW; x += 1) {
+      const v = gray.data[row + x];
+      if (x < mid) {
+        leftSum += v;
+        leftCount += 1;
+      } else {
+        rightSum += v;
+        rightCount += 1;
+      }
+    }
+  }
+  const lPct = ((leftCount ? leftSum / leftCount : 0) / 255) * 100;
+  const rPct = ((rightCount ? rightSum / rightCount : 0) / 255) * 100;
+  const diffRatio = Math.abs(lPct - rPct) / Math.max(lPct, rPct, 1);
+  return round2(clamp(100 - diffRatio * 100, 0, 100));
+}
+
+// 整帧模糊后统计人脸（外扩 20%）以外区域的亮度标准差
+export function computeBackgroundUniformity(gray: GrayImage, bbox: [number, number, number, number]) {
+  const { width, height } = gray;
+  if (!width || !height) return null;
+  const blurred = blurGray(gray, BACKGROUND.blurRadius, BACKGROUND.blurPasses);
+  const [x1, y1, x2, y2] = bbox;
+  const padW = (x2 - x1) * BACKGROUND.padRatio;
+  const padH = (y2 - y1) * BACKGROUND.padRatio;
+  const rx1 = Math.max(0, Math.floor(x1 - padW));
+  const ry1 = Math.max(0, Math.floor(y1 - padH));
+  const rx2 = Math.min(width, Math.ceil(x2 + padW));
+  const ry2 = Math.min(height, Math.ceil(y2 + padH));
+  let mean = 0;
+  let m2 = 0;
+  let count = 0;
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      if (x >= rx1 && x < rx2 && y >= ry1 && y < ry2) continue;
+      const v = blurred[y * width + x];
+      count += 1;
+      const delta = v - mean;
+      mean += delta / count;
+      m2 += delta * (v - mean);
+    }
+  }
+  if (!count) return 0;
+  const stdDev = Math.sqrt(m2 / count);
+  return round2(clamp(100 - stdDev * BACKGROUND.stdDevWeight, 0, 100));
+}
+
+export function evaluatePixelResolution(kps?: Array<{ x: number; y: number }>) {
+  if (!kps || kps.length < 2) return null;
+  const iod = Math.hypot(kps[0].x - kps[1].x, kps[0].y - kps[1].y);
+  const { minIod, highIod } = PIXEL_RESOLUTION;
+  let score: number;
+  if (iod < minIod) {
+    score = (iod / minIod) * 60;
+  } else if (iod >= highIod) {
+    score = 100;
+  } else {
+    score = 60 + ((iod - minIod) / (highIod - minIod)) * 40;
+  }
+  return round2(score);
+}
+
+// 一次灰度转换后计算全部指标；输入为原始（未镜像）画面与同一坐标系下的人脸框
+export function computeImageQuality(input: ImageQualityInput): ImageQualityReport {
+  const gray = toGrayscale(input.data, input.width, input.height);
+  return {
+    brightness: computeBrightness(gray, input.bbox),
+    laplacianScore: computeLaplacianScore(gray, input.bbox),
+    clarity: estimateBlurScore(gray, input.bbox),
+    uniformLighting: computeUniformLighting(gray, input.bbox),
+    backgroundUniformity: computeBackgroundUniformity(gray, input.bbox),
+    pixelResolution: evaluatePixelResolution(input.kps),
+  };
+}
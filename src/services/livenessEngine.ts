@@ -1,4 +1,17 @@
 import * as ort from 'onnxruntime-web';
+import type { ElementType } from 'react';
+import { ALIGNMENT_TEMPLATES, drawAlignedFace } from './faceAlignment';
+import { WebGLTensorPreprocessor, type TensorSampling } from './gpuPreprocessor';
+import { ModelStore, type ModelLoadReport, type ModelStoreOptions } from './modelStore';
+import { OneEuroVectorFilter, type OneEuroFilterParams } from './oneEuroFilter';
+import {
+  DEFAULT_OCCLUSION_THRESHOLD,
+  OCCLUSION_REGIONS,
+  analyzeOcclusion,
+  type OcclusionAnalysis,
+  type OcclusionRegion,
+} from './occlusion';
+import { analyzeScreenReplay, type ScreenReplayAnalysis } from './screenReplay';
 import ortWasmSimdThreadedJsepMjs from '../assets/onnxruntime/ort-wasm-simd-threaded.jsep.mjs?url';
 import ortWasmSimdThreadedJsepWasm from '../assets/onnxruntime/ort-wasm-simd-threaded.jsep.wasm?url';
 import ortWasmSimdThreadedMjs from '../assets/onnxruntime/ort-wasm-simd-threaded.mjs?url';
@@ -10,28 +23,269 @@ import pfpldModelUrl from '../models/pfpld.onnx?url';
 
 const SCRFD_RELATIVE_PATH = 'models/scrfd_500m_bnkps_shape640x640.onnx';
 const PFPLD_RELATIVE_PATH = 'models/pfpld.onnx';
+const ANTI_SPOOF_RELATIVE_PATH = 'models/minifasnet.onnx';
+const EMBEDDING_RELATIVE_PATH = 'models/arcface.onnx';
 const DEFAULT_MODEL_URL = scrfdModelUrl;
+// 内置 SCRFD 模型的 SHA-256，未指定 detectorModelUrl 时用于校验下载与缓存内容
+const DEFAULT_MODEL_SHA256 = 'ae72185653e279aa2056b288662a19ec3519ced5426d2adeffbe058a86369a24';
 const DEFAULT_LANDMARK_MODEL_URL = pfpldModelUrl;
 
-type ExecutionProvider = 'webgpu' | 'webgl' | 'wasm';
+export type ExecutionProvider = 'webgpu' | 'webgl' | 'wasm';
 
 const EXECUTION_PROVIDERS: ExecutionProvider[] = ['webgpu', 'webgl', 'wasm'];
+// 最小的 SIMD wasm 模块，用于检测浏览器是否支持 wasm SIMD
+const WASM_SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+
+export interface LivenessConfig {
+  nodPitch: number;
+  shakeYaw: number;
+  mouthThreshold: number;
+  turnYawDegrees: number;
+  turnPitchDegrees: number;
+  /** 相对睁眼基线 EAR 的比例：低于 closed 视为闭眼，回到 open 以上视为睁开 */
+  blinkClosedRatio: number;
+  blinkOpenRatio: number;
+  /** 一次眨眼从开始闭合到重新睁开的合理时长（毫秒） */
+  blinkMinDurationMs: number;
+  blinkMaxDurationMs: number;
+  blinkCount: number;
+  /** 参与睁眼基线统计的 EAR 有效区间 */
+  blinkBaselineMin: number;
+  blinkBaselineMax: number;
+  /** 正脸分数的高斯宽度（度） */
+  poseScoreSigma: number;
+  nmsThreshold: number;
+}
 
-export const LIVENESS_CONFIG = {
+export const DEFAULT_LIVENESS_CONFIG: Readonly<LivenessConfig> = Object.freeze({
   nodPitch: 0.05,
   shakeYaw: 0.06,
-  blinkThreshold: 0.018,
   mouthThreshold: 0.5,
+  turnYawDegrees: 15,
+  turnPitchDegrees: 10,
+  blinkClosedRatio: 0.6,
+  blinkOpenRatio: 0.85,
+  blinkMinDurationMs: 60,
+  blinkMaxDurationMs: 700,
+  blinkCount: 1,
+  blinkBaselineMin: 0.12,
+  blinkBaselineMax: 0.6,
+  poseScoreSigma: 20,
+  nmsThreshold: 0.4,
+});
+
+const LIVENESS_CONFIG_RANGES: Record<keyof LivenessConfig, { min: number; max: number; integer?: boolean }> = {
+  nodPitch: { min: 0.001, max: 1 },
+  shakeYaw: { min: 0.001, max: 1 },
+  mouthThreshold: { min: 0.01, max: 5 },
+  turnYawDegrees: { min: 1, max: 90 },
+  turnPitchDegrees: { min: 1, max: 90 },
+  blinkClosedRatio: { min: 0.05, max: 1 },
+  blinkOpenRatio: { min: 0.05, max: 1 },
+  blinkMinDurationMs: { min: 0, max: 5000 },
+  blinkMaxDurationMs: { min: 1, max: 10000 },
+  blinkCount: { min: 1, max: 10, integer: true },
+  blinkBaselineMin: { min: 0, max: 2 },
+  blinkBaselineMax: { min: 0, max: 2 },
+  poseScoreSigma: { min: 1, max: 180 },
+  nmsThreshold: { min: 0.01, max: 1 },
 };
 
-const INITIAL_BLINK_AVG = 10;
-const BLINK_THRESHOLD_LIMITS = { low: 5, high: 20 };
-const BLINK_AVG_WEIGHTS = { current: 0.1, previous: 0.9 };
-const POSE_SCORE_SIGMA = 20;
+// 合并默认值并校验取值范围与字段间约束，返回冻结的新对象
+export function resolveLivenessConfig(overrides: Partial<LivenessConfig> = {}): Readonly<LivenessConfig> {
+  const config: LivenessConfig = { ...DEFAULT_LIVENESS_CONFIG };
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (!(key in LIVENESS_CONFIG_RANGES)) {
+      throw new Error(`未知的活体配置项: ${key}`);
+    }
+    if (value === undefined) return;
+    const range = LIVENESS_CONFIG_RANGES[key as keyof LivenessConfig];
+    if (
+      typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      value < range.min ||
+      value > range.max ||
+      (range.integer && !Number.isInteger(value))
+    ) {
+      throw new Error(`无效的活体配置 ${key}: ${String(value)}（应在 ${range.min} ~ ${range.max} 之间）`);
+    }
+    config[key as keyof LivenessConfig] = value;
+  });
+  if (config.blinkClosedRatio >= config.blinkOpenRatio) {
+    throw new Error('无效的活体配置: blinkClosedRatio 必须小于 blinkOpenRatio');
+  }
+  if (config.blinkMinDurationMs >= config.blinkMaxDurationMs) {
+    throw new Error('无效的活体配置: blinkMinDurationMs 必须小于 blinkMaxDurationMs');
+  }
+  if (config.blinkBaselineMin >= config.blinkBaselineMax) {
+    throw new Error('无效的活体配置: blinkBaselineMin 必须小于 blinkBaselineMax');
+  }
+  return Object.freeze(config);
+}
+
+const BLINK_BASELINE_WEIGHTS = { current: 0.1, previous: 0.9 };
+const MIN_BLINK_BASELINE_SAMPLES = 5;
 const POSE_SCORE_WEIGHTS = { yaw: 1, pitch: 1, roll: 0.8 };
+// PFLD 姿态角符号：yaw 为正表示用户向自己的左侧转头，pitch 为正表示抬头
+const POSE_DIRECTION_SIGNS = { yaw: 1, pitch: 1 };
+// 视频帧未镜像：用户向左转头时鼻尖在画面中右移（shakeRatio 变小），抬头时鼻尖上移（nodRatio 变大）
+const RATIO_DIRECTION_SIGNS = { yaw: -1, pitch: 1 };
+// 方向动作只在该轴姿态角不超过此值（度）时采集鼻尖比例基线
+const HEAD_TURN_BASELINE_MAX_DEGREES = 5;
+const ANTI_SPOOF_CROP_SCALE = 2.7;
+const ANTI_SPOOF_REAL_CLASS_INDEX = 1;
+const DEFAULT_ANTI_SPOOF_THRESHOLD = 0.5;
+const DEFAULT_ANTI_SPOOF_SAMPLE_INTERVAL = 5;
+const MIN_ANTI_SPOOF_SAMPLES = 3;
+// 动作全部完成后补采样的最多帧数，仍不足最少采样次数则判定证据不足
+const MAX_EVIDENCE_FRAMES = 30;
+const SCREEN_REPLAY_ROI_SIZE = 128;
+const SCREEN_REPLAY_ROI_RATIO = 0.6;
+const DEFAULT_SCREEN_REPLAY_SAMPLE_INTERVAL = 5;
+const MIN_SCREEN_REPLAY_SAMPLES = 3;
+const OCCLUSION_ROI_SIZE = 128;
+// 人脸区域在关键点外接框基础上的放大倍数与上移比例，保证额头参考区域在画面内
+const OCCLUSION_ROI_SCALE = 1.4;
+const OCCLUSION_ROI_SHIFT = 0.1;
+const DEFAULT_OCCLUSION_SAMPLE_INTERVAL = 2;
+// 遮挡分数的指数平滑系数，避免眨眼等瞬时变化造成提示闪烁
+const OCCLUSION_SMOOTHING = 0.4;
+const IDENTITY_TRACKING = {
+  minIou: 0.3,
+  maxMotion: 0.5,
+  lostFrameLimit: 3,
+  frontalMaxDegrees: 15,
+  referenceSamples: 5,
+  geometryTolerance: 0.15,
+  mismatchFrames: 3,
+};
 
 type ModelSource = string | ArrayBuffer | Blob | string[];
 
+export type ModelName = 'detector' | 'landmark' | 'antiSpoof' | 'embedding';
+
+export type ModelLoadPhase = 'download' | 'compile' | 'warmup';
+
+export interface ModelLoadProgress {
+  model: ModelName;
+  phase: ModelLoadPhase;
+  /** 当前阶段已完成的字节数（仅 download 有意义） */
+  loaded: number;
+  total: number | null;
+  /** 所有模型整体进度 0~1 */
+  progress: number;
+}
+
+export type ModelLoadProgressListener = (event: ModelLoadProgress) => void;
+
+type DownloadProgressListener = (loaded: number, total: number | null) => void;
+
+// 单个模型内各阶段占的进度比例
+const MODEL_PHASE_SPANS: Record<ModelLoadPhase, { start: number; span: number }> = {
+  download: { start: 0, span: 0.7 },
+  compile: { start: 0.7, span: 0.2 },
+  warmup: { start: 0.9, span: 0.1 },
+};
+
+export interface ModelDiagnostics {
+  provider: ExecutionProvider;
+  /** 在最终后端之前初始化失败的后端及原因 */
+  failedProviders: ProviderAttempt[];
+  cacheHit: boolean;
+  downloadMs: number;
+  compileMs: number;
+  warmupMs: number | null;
+}
+
+export interface BackendDiagnostics {
+  requestedProviders: ExecutionProvider[];
+  wasmSimdSupported: boolean;
+  wasmSimdEnabled: boolean;
+  wasmThreadsSupported: boolean;
+  /** 0 表示由 onnxruntime 自动决定 */
+  wasmNumThreads: number;
+  /** 被强制切换到单线程标量 wasm 的原因，例如 safari / simd-unavailable */
+  scalarWasmReason: string | null;
+  models: Partial<Record<ModelName, ModelDiagnostics>>;
+  detectorResolution: DetectorResolutionDiagnostics;
+  preprocessing: PreprocessingDiagnostics;
+}
+
+export type PreprocessingMode = 'gpu' | 'cpu';
+
+export interface PreprocessingDiagnostics {
+  requested: PreprocessingMode;
+  /** 实际使用的预处理路径；GPU 不可用或出错时为 cpu */
+  active: PreprocessingMode;
+  fallbackReason: string | null;
+  /** 每帧检测与关键点预处理的平均耗时（毫秒） */
+  averageMs: number | null;
+}
+
+export interface DetectorResolutionDiagnostics {
+  /** 检测模型输入是否为动态尺寸；固定尺寸的模型不会切换分辨率 */
+  dynamicInput: boolean;
+  adaptive: boolean;
+  candidates: number[];
+  /** 最近一帧使用的检测输入边长 */
+  current: number;
+}
+
+export interface AdaptiveResolutionOptions {
+  /** 候选检测输入边长，需为 32 的倍数 */
+  resolutions?: number[];
+  /** 算法帧率低于该值时降低分辨率 */
+  minFps?: number;
+  /** 人脸框短边在检测输入中的像素数低于该值时提高分辨率 */
+  minFacePixels?: number;
+  /** 两次切换之间至少间隔的帧数，同时也是连续丢失人脸多少帧后升档 */
+  cooldownFrames?: number;
+}
+
+export interface ModelIntegrity {
+  /** 缓存版本号，默认取 sha256，其次取模型地址 */
+  version?: string;
+  sha256?: string;
+}
+
+const DEFAULT_LANDMARK_TRACKING: Required<LandmarkTrackingOptions> = {
+  redetectInterval: 10,
+  minConfidence: 0.6,
+  maxMotion: 0.25,
+  minPresence: 0.2,
+};
+// 跟踪帧人脸几何的常见范围：瞳距 / 脸宽（0 与 32 号轮廓点间距）、嘴角中点到两眼中点的纵向距离 / 瞳距
+const PRESENCE_IOD_RATIO_RANGE: [number, number] = [0.15, 0.75];
+const PRESENCE_MOUTH_RATIO_RANGE: [number, number] = [0.5, 2];
+// WFLW 中与 SCRFD 5 点对应的关键点：两眼瞳孔、鼻尖、两嘴角
+const WFLW_FIVE_POINT_INDICES = [96, 97, 54, 76, 82];
+
+const PREPROCESS_TIMING_SMOOTHING = 0.1;
+
+const DETECTOR_BASE_RESOLUTION = 640;
+const DEFAULT_ADAPTIVE_RESOLUTION: Required<AdaptiveResolutionOptions> = {
+  resolutions: [320, 480, 640],
+  minFps: 12,
+  minFacePixels: 80,
+  cooldownFrames: 15,
+};
+// 降档后人脸仍需留有余量，否则会在两档之间来回切换
+const RESOLUTION_DOWNSCALE_MARGIN = 1.25;
+// 帧间隔超过该值视为暂停，不计入帧率
+const FPS_MAX_FRAME_GAP_MS = 1000;
+const FPS_SMOOTHING = 0.2;
+
+// landmarks/bbox 单位为像素，pose 为弧度，beta 按各自的速度量级设置
+// 眼睛（60~75）与嘴唇（76~95）轮廓点不做滤波：眨眼、张嘴只持续几帧，滤波会压低 EAR / 张嘴比例的峰值
+const UNSMOOTHED_LANDMARK_START = 60;
+const UNSMOOTHED_LANDMARK_END = 95;
+const DEFAULT_SMOOTHING: Record<SmoothingSignal, OneEuroFilterParams> = {
+  landmarks: { minCutoff: 1.5, beta: 0.01, derivativeCutoff: 1 },
+  pose: { minCutoff: 1, beta: 0.3, derivativeCutoff: 1 },
+  bbox: { minCutoff: 1, beta: 0.01, derivativeCutoff: 1 },
+};
 const ORT_WASM_PATHS = {
   mjs: ortWasmSimdThreadedJsepMjs,
   wasm: ortWasmSimdThreadedJsepWasm,
@@ -56,12 +310,36 @@ function buildModelSourceCandidates(primary: string, relativePath: string) {
   return Array.from(new Set(candidates.filter((item) => typeof item === 'string' && item.length)));
 }
 
-async function fetchModelFromUrl(url: string) {
+async function readResponseBuffer(response: Response, onProgress?: DownloadProgressListener) {
+  const total = Number(response.headers.get('content-length')) || null;
+  if (!response.body || !onProgress) {
+    return response.arrayBuffer();
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    onProgress(loaded, total);
+  }
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
+
+async function fetchModelFromUrl(url: string, onProgress?: DownloadProgressListener) {
   const response = await fetch(url);
   if (!response.ok) {
     throw new Error(`HTTP ${response.status} for ${url}`);
   }
-  const buffer = await response.arrayBuffer();
+  const buffer = await readResponseBuffer(response, onProgress);
   const headerBytes = new Uint8Array(buffer.slice(0, 32));
   const headerText = new TextDecoder('utf-8', { fatal: false }).decode(headerBytes);
   const contentType = response.headers.get('content-type') || '';
@@ -78,15 +356,46 @@ async function fetchModelFromUrl(url: string) {
   return buffer;
 }
 
-export type LivenessStageKey = 'nod' | 'shake' | 'blink' | 'mouth';
+async function loadModelBuffer(source: ModelSource, onProgress?: DownloadProgressListener) {
+  const candidates = Array.isArray(source) ? source : [source];
+  const errors: string[] = [];
+  for (const entry of candidates) {
+    try {
+      if (entry instanceof ArrayBuffer) {
+        return entry;
+      }
+      if (entry instanceof Blob) {
+        return entry.arrayBuffer();
+      }
+      if (typeof entry === 'string') {
+        return await fetchModelFromUrl(entry, onProgress);
+      }
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  throw new Error(errors.length ? errors.join('; ') : '不支持的模型来源');
+}
+
+export type BuiltinLivenessStageKey =
+  | 'nod'
+  | 'shake'
+  | 'blink'
+  | 'mouth'
+  | 'turnLeft'
+  | 'turnRight'
+  | 'lookUp'
+  | 'lookDown';
 
-interface Detection {
+export type LivenessStageKey = BuiltinLivenessStageKey | (string & {});
+
+export interface Detection {
   bbox: [number, number, number, number];
   score: number;
   kps?: Array<{ x: number; y: number }>;
 }
 
-interface DetectionWithLandmarks extends Detection {
+export interface DetectionWithLandmarks extends Detection {
   landmarks: Array<{ x: number; y: number }>;
   pose: Pose | null;
 }
@@ -103,10 +412,89 @@ export interface LivenessMetrics {
   shakeRatio: number | null;
   shakeSpread: number | null;
   blink: ReturnType<typeof computeBlinkRatios>;
+  blinkTracking: BlinkTrackingMetrics;
   mouthRatio: number | null;
   pose: Pose | null;
   poseDegrees: Pose | null;
   frontalScore: number | null;
+  spoofProbability: number | null;
+  sessionSpoofProbability: number | null;
+  screenReplay: ScreenReplayAnalysis | null;
+  sessionScreenReplayScore: number | null;
+  identity: IdentityTrackMetrics | null;
+  tracking: FaceTrackingMetrics | null;
+  occlusion: OcclusionMetrics | null;
+  raw: RawLivenessMetrics | null;
+}
+
+// 只由关键点与姿态推出的动作指标，轨迹回放时可以完整重算
+export type LivenessActionMetrics = Pick<
+  LivenessMetrics,
+  | 'nodRatio'
+  | 'nodSpread'
+  | 'shakeRatio'
+  | 'shakeSpread'
+  | 'blink'
+  | 'blinkTracking'
+  | 'mouthRatio'
+  | 'pose'
+  | 'poseDegrees'
+  | 'frontalScore'
+>;
+
+export interface OcclusionMetrics {
+  /** 各区域平滑后的遮挡分数 0~1 */
+  scores: Record<OcclusionRegion, number>;
+  /** 各区域是否判定为遮挡 */
+  regions: Record<OcclusionRegion, boolean>;
+  occluded: boolean;
+  /** 本帧的原始分析结果，未采样的帧为 null */
+  analysis: OcclusionAnalysis | null;
+}
+
+export type FaceTrackingMode = 'detect' | 'track';
+
+export interface FaceTrackingMetrics {
+  /** detect：本帧运行了 SCRFD；track：由上一帧关键点推出人脸框 */
+  mode: FaceTrackingMode;
+  /** 输入框与本帧关键点推回的框的 IoU，检测帧为 null */
+  confidence: number | null;
+  /** 本帧关键点几何的人脸可信度（0~1），同时作为跟踪帧的人脸分数；检测帧为 null */
+  presence: number | null;
+  framesSinceDetection: number;
+}
+
+export interface LandmarkTrackingOptions {
+  /** 每隔多少帧强制运行一次完整检测（同时做多人脸检查） */
+  redetectInterval?: number;
+  /** 跟踪置信度低于该值时本帧改为完整检测 */
+  minConfidence?: number;
+  /** 相邻帧人脸中心位移超过框宽的该比例时，下一帧改为完整检测 */
+  maxMotion?: number;
+  /** 跟踪帧关键点几何的人脸可信度低于该值时视为人脸已离开，本帧改为完整检测 */
+  minPresence?: number;
+}
+
+// 未经时域滤波的同一帧指标，便于对比滤波前后的抖动
+export interface RawLivenessMetrics {
+  nodRatio: number | null;
+  shakeRatio: number | null;
+  blink: ReturnType<typeof computeBlinkRatios>;
+  mouthRatio: number | null;
+  poseDegrees: Pose | null;
+}
+
+export type SmoothingSignal = 'landmarks' | 'pose' | 'bbox';
+
+/** 各信号的 One Euro 参数，false 表示该信号不做滤波 */
+export type SmoothingOptions = Partial<Record<SmoothingSignal, Partial<OneEuroFilterParams> | false>>;
+
+export interface IdentityTrackMetrics {
+  iou: number | null;
+  motion: number | null;
+  geometryDeviation: number | null;
+  reacquired: boolean;
+  verified: boolean;
 }
 
 export interface FaceDetectionResult {
@@ -115,10 +503,24 @@ export interface FaceDetectionResult {
   kps?: Array<{ x: number; y: number }>;
 }
 
+export type BlinkPhase = 'open' | 'closing' | 'closed' | 'opening';
+
 interface BlinkState {
-  closedDetected: boolean;
-  openDetected: boolean;
-  eyeAvg: number | null;
+  phase: BlinkPhase;
+  baselineEar: number | null;
+  baselineSamples: number;
+  startedAt: number | null;
+  count: number;
+  rejectedCount: number;
+  lastDurationMs: number | null;
+}
+
+export interface BlinkTrackingMetrics {
+  phase: BlinkPhase;
+  count: number;
+  rejectedCount: number;
+  baselineEar: number | null;
+  lastDurationMs: number | null;
 }
 
 interface MouthState {
@@ -131,44 +533,136 @@ interface RangeState {
   max: number | null;
 }
 
-interface LivenessComputationState {
+interface AntiSpoofState {
+  frameCounter: number;
+  samples: number;
+  probabilitySum: number;
+  maxProbability: number | null;
+}
+
+interface ScreenReplayState {
+  frameCounter: number;
+  samples: number;
+  scoreSum: number;
+}
+
+interface OcclusionState {
+  frameCounter: number;
+  scores: Record<OcclusionRegion, number> | null;
+}
+
+interface IdentityTrackState {
+  lastBox: [number, number, number, number] | null;
+  missedFrames: number;
+  reference: number[] | null;
+  referenceSum: number[] | null;
+  referenceCount: number;
+  pendingVerification: boolean;
+  mismatchFrames: number;
+}
+
+export type LivenessFailureReason = 'SPOOF_DETECTED' | 'SCREEN_REPLAY' | 'IDENTITY_CHANGED' | 'INSUFFICIENT_EVIDENCE';
+
+export interface LivenessComputationState {
+  config: Readonly<LivenessConfig>;
   active: boolean;
+  plan: LivenessStageDefinition[];
+  stageStates: Record<string, unknown>;
   stageIndex: number;
   progress: number;
   completed: boolean;
+  failed: boolean;
+  failureReason: LivenessFailureReason | null;
+  /** 动作已全部完成、等待补足静默活体/翻拍采样的帧数 */
+  evidenceFrames: number;
   lastMetrics: LivenessMetrics | null;
   nodRange: RangeState;
   shakeRange: RangeState;
   blink: BlinkState;
   mouth: MouthState;
+  antiSpoof: AntiSpoofState;
+  screenReplay: ScreenReplayState;
+  occlusion: OcclusionState;
+  identity: IdentityTrackState;
 }
 
-function createLivenessComputationState(): LivenessComputationState {
+function createLivenessComputationState(
+  plan: LivenessStageDefinition[] = LIVENESS_STAGES,
+  config: Readonly<LivenessConfig> = DEFAULT_LIVENESS_CONFIG,
+): LivenessComputationState {
   return {
+    config,
     active: false,
+    plan,
+    stageStates: {},
     stageIndex: 0,
     progress: 0,
     completed: false,
+    failed: false,
+    failureReason: null,
+    evidenceFrames: 0,
     lastMetrics: null,
     nodRange: { min: null, max: null },
     shakeRange: { min: null, max: null },
-    blink: {
-      closedDetected: false,
-      openDetected: false,
-      eyeAvg: INITIAL_BLINK_AVG,
-    },
+    blink: createBlinkState(),
     mouth: {
       openDetected: false,
       closedDetected: false,
     },
+    antiSpoof: {
+      frameCounter: 0,
+      samples: 0,
+      probabilitySum: 0,
+      maxProbability: null,
+    },
+    screenReplay: {
+      frameCounter: 0,
+      samples: 0,
+      scoreSum: 0,
+    },
+    occlusion: {
+      frameCounter: 0,
+      scores: null,
+    },
+    identity: {
+      lastBox: null,
+      missedFrames: 0,
+      reference: null,
+      referenceSum: null,
+      referenceCount: 0,
+      pendingVerification: false,
+      mismatchFrames: 0,
+    },
   };
 }
 
-export interface LivenessStageDefinition {
+export interface LivenessStageDefinition<TStageState = unknown> {
   key: LivenessStageKey;
   label: string;
   prompt: string;
-  check: (metrics: LivenessMetrics, state: LivenessComputationState) => boolean;
+  icon?: ElementType;
+  timeoutMs?: number;
+  createState?: () => TStageState;
+  // 钩子以方法形式声明，带类型状态的动作可以直接放入 LivenessStageDefinition<unknown> 注册表
+  update?(metrics: LivenessMetrics, stageState: TStageState, detection: DetectionWithLandmarks): void;
+  check(metrics: LivenessMetrics, state: LivenessComputationState, stageState: TStageState): boolean;
+  reset?(state: LivenessComputationState, stageState: TStageState): void;
+}
+
+// 要求完成 count 次（默认取配置 blinkCount）时长合理的眨眼；自定义动作可用它注册“眨眼两次”等阶段
+export function createBlinkStage(
+  key: LivenessStageKey,
+  label: string,
+  prompt: string,
+  count?: number,
+): LivenessStageDefinition {
+  return {
+    key,
+    label,
+    prompt,
+    check: (_, state) => state.blink.count >= (count ?? state.config.blinkCount),
+    reset: (state) => resetBlinkDetections(state),
+  };
 }
 
 export const LIVENESS_STAGES: LivenessStageDefinition[] = [
@@ -176,31 +670,229 @@ export const LIVENESS_STAGES: LivenessStageDefinition[] = [
     key: 'nod',
     label: '点头',
     prompt: '请点头',
-    check: (metrics) =>
-      typeof metrics.nodSpread === 'number' && metrics.nodSpread >= LIVENESS_CONFIG.nodPitch,
+    check: (metrics, state) =>
+      typeof metrics.nodSpread === 'number' && metrics.nodSpread >= state.config.nodPitch,
+    reset: (state) => resetRange(state.nodRange),
   },
   {
     key: 'shake',
     label: '摇头',
     prompt: '请左右摇头',
-    check: (metrics) =>
-      typeof metrics.shakeSpread === 'number' && metrics.shakeSpread >= LIVENESS_CONFIG.shakeYaw,
-  },
-  {
-    key: 'blink',
-    label: '眨眼',
-    prompt: '请眨眼',
-    check: (_, state) => state.blink.closedDetected && state.blink.openDetected,
+    check: (metrics, state) =>
+      typeof metrics.shakeSpread === 'number' && metrics.shakeSpread >= state.config.shakeYaw,
+    reset: (state) => resetRange(state.shakeRange),
   },
+  createBlinkStage('blink', '眨眼', '请眨眼'),
   {
     key: 'mouth',
     label: '张嘴',
     prompt: '请张大嘴巴',
     check: (_, state) => state.mouth.closedDetected && state.mouth.openDetected,
+    reset: (state) => resetMouthState(state),
   },
 ];
 
-type InputElement = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+interface HeadTurnState {
+  baselineRatio: number | null;
+  angleDelta: number | null;
+  ratioDelta: number | null;
+}
+
+function createHeadTurnStage(
+  key: BuiltinLivenessStageKey,
+  label: string,
+  prompt: string,
+  axis: 'yaw' | 'pitch',
+  direction: 1 | -1,
+): LivenessStageDefinition<HeadTurnState> {
+  const ratioKey = axis === 'yaw' ? 'shakeRatio' : 'nodRatio';
+  return {
+    key,
+    label,
+    prompt,
+    createState: () => ({ baselineRatio: null, angleDelta: null, ratioDelta: null }),
+    update: (metrics, stageState) => {
+      const rawAngle = metrics.poseDegrees ? metrics.poseDegrees[axis] : null;
+      const rawRatio = metrics[ratioKey];
+      const angle = typeof rawAngle === 'number' ? rawAngle * POSE_DIRECTION_SIGNS[axis] * direction : null;
+      const ratio = typeof rawRatio === 'number' ? rawRatio * RATIO_DIRECTION_SIGNS[axis] * direction : null;
+      // 姿态角以正脸 0° 为参照；鼻尖比例因人而异，取本阶段第一帧正脸时的值作基线，
+      // 避免用户仍保持上一个动作的姿态时基线偏移
+      if (
+        ratio !== null &&
+        stageState.baselineRatio === null &&
+        typeof rawAngle === 'number' &&
+        Math.abs(rawAngle) <= HEAD_TURN_BASELINE_MAX_DEGREES
+      ) {
+        stageState.baselineRatio = ratio;
+      }
+      stageState.angleDelta = angle;
+      stageState.ratioDelta =
+        ratio !== null && stageState.baselineRatio !== null ? ratio - stageState.baselineRatio : null;
+    },
+    // 鼻尖比例与姿态角必须同时达标，缺少姿态时不通过
+    check: (_, state, stageState) => {
+      const { config } = state;
+      const ratioThreshold = axis === 'yaw' ? config.shakeYaw : config.nodPitch;
+      const angleThreshold = axis === 'yaw' ? config.turnYawDegrees : config.turnPitchDegrees;
+      if (stageState.ratioDelta === null || stageState.ratioDelta < ratioThreshold) {
+        return false;
+      }
+      return stageState.angleDelta !== null && stageState.angleDelta >= angleThreshold;
+    },
+    reset: (_, stageState) => {
+      stageState.baselineRatio = null;
+      stageState.angleDelta = null;
+      stageState.ratioDelta = null;
+    },
+  };
+}
+
+export const HEAD_TURN_STAGES: LivenessStageDefinition[] = [
+  createHeadTurnStage('turnLeft', '向左转头', '请向左转头', 'yaw', 1),
+  createHeadTurnStage('turnRight', '向右转头', '请向右转头', 'yaw', -1),
+  createHeadTurnStage('lookUp', '抬头', '请抬头', 'pitch', 1),
+  createHeadTurnStage('lookDown', '低头', '请低头', 'pitch', -1),
+];
+
+const BUILTIN_STAGES = [...LIVENESS_STAGES, ...HEAD_TURN_STAGES];
+
+const stageRegistry = new Map<LivenessStageKey, LivenessStageDefinition>(
+  BUILTIN_STAGES.map((stage) => [stage.key, stage]),
+);
+
+export function registerLivenessStage<TStageState>(stage: LivenessStageDefinition<TStageState>) {
+  if (!stage.key) {
+    throw new Error('活体动作缺少 key');
+  }
+  if (BUILTIN_STAGES.some((item) => item.key === stage.key)) {
+    throw new Error(`不能覆盖内置活体动作: ${stage.key}`);
+  }
+  stageRegistry.set(stage.key, stage);
+  return () => {
+    if (stageRegistry.get(stage.key) === stage) {
+      stageRegistry.delete(stage.key);
+    }
+  };
+}
+
+export function getLivenessStage(key: LivenessStageKey) {
+  return stageRegistry.get(key) ?? null;
+}
+
+export function getRegisteredLivenessStages() {
+  return Array.from(stageRegistry.values());
+}
+
+export interface ChallengePlan {
+  stages: LivenessStageKey[];
+  seed?: string;
+}
+
+export interface ChallengePlanOptions {
+  seed?: string;
+  stages?: LivenessStageKey[];
+  count?: number;
+}
+
+function hashSeed(seed: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i += 1) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function createSeededRandom(seed: string) {
+  let value = hashSeed(seed);
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateNonce() {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function createChallengePlan(options: ChallengePlanOptions = {}): ChallengePlan {
+  const pool = options.stages?.length ? options.stages.slice() : LIVENESS_STAGES.map((stage) => stage.key);
+  const seed = options.seed ?? generateNonce();
+  const random = createSeededRandom(seed);
+  for (let i = pool.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  const count = Math.max(1, Math.min(pool.length, options.count ?? pool.length));
+  return resolveChallengePlan({ stages: pool.slice(0, count), seed }).plan;
+}
+
+function resolveChallengePlan(plan: ChallengePlan) {
+  if (!plan.stages.length) {
+    throw new Error('活体动作序列不能为空');
+  }
+  const seen = new Set<LivenessStageKey>();
+  const stages = plan.stages.map((key) => {
+    const stage = getLivenessStage(key);
+    if (!stage) {
+      throw new Error(`未知的活体动作: ${key}`);
+    }
+    if (seen.has(key)) {
+      throw new Error(`活体动作重复: ${key}`);
+    }
+    seen.add(key);
+    return stage;
+  });
+  return { plan: { ...plan, stages: plan.stages.slice() }, stages };
+}
+
+export function normalizeChallengePlan(plan?: ChallengePlan): ChallengePlan {
+  return resolveChallengePlan(plan ?? { stages: LIVENESS_STAGES.map((stage) => stage.key) }).plan;
+}
+
+export type InputElement =
+  | HTMLVideoElement
+  | HTMLCanvasElement
+  | HTMLImageElement
+  | ImageBitmap
+  | OffscreenCanvas
+  | VideoFrame;
+
+type PreprocessCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export function getInputSize(element: InputElement) {
+  if ('videoWidth' in element) {
+    return { width: element.videoWidth || element.width, height: element.videoHeight || element.height };
+  }
+  if ('displayWidth' in element) {
+    return { width: element.displayWidth, height: element.displayHeight };
+  }
+  return { width: element.width, height: element.height };
+}
+
+function createWarmupCanvas() {
+  const { canvas } = createPreprocessContext('无法创建预热画布');
+  canvas.width = 640;
+  canvas.height = 640;
+  return canvas;
+}
+
+// Worker 中没有 document，改用 OffscreenCanvas；两者的 2D 上下文在这里的用法一致
+function createPreprocessContext(errorMessage: string) {
+  const canvas: PreprocessCanvas =
+    typeof document === 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error(errorMessage);
+  }
+  return { canvas, ctx };
+}
 
 function getExecutionProviders(): ExecutionProvider[] {
   return EXECUTION_PROVIDERS.slice();
@@ -245,105 +937,243 @@ function isHuaweiWebgpuRestricted() {
   return /huawei|kirin/i.test(ua);
 }
 
-function forceScalarWasmBackend() {
+let scalarWasmReason: string | null = null;
+
+function forceScalarWasmBackend(reason: string) {
   if (!ort.env || !ort.env.wasm) return;
   ort.env.wasm.simd = false;
   ort.env.wasm.numThreads = 1;
   ort.env.wasm.proxy = false;
+  scalarWasmReason = scalarWasmReason ?? reason;
 }
 
-function applyDeviceBackendOverrides() {
+// 按机型限制默认后端；显式传入 executionProviders 时不再套用
+function getDefaultExecutionProviders(): ExecutionProvider[] {
   if (isHuaweiWebgpuRestricted()) {
-    EXECUTION_PROVIDERS.splice(0, EXECUTION_PROVIDERS.length, 'webgl', 'wasm');
+    return ['webgl', 'wasm'];
   }
+  return getExecutionProviders();
 }
 
-async function createOrtSession(buffer: ArrayBuffer) {
+function isWasmSimdSupported() {
   try {
-    return await ort.InferenceSession.create(buffer, {
-      executionProviders: getExecutionProviders(),
-    });
+    return typeof WebAssembly !== 'undefined' && WebAssembly.validate(WASM_SIMD_PROBE);
+  } catch {
+    return false;
+  }
+}
+
+function isWasmThreadsSupported() {
+  return typeof SharedArrayBuffer !== 'undefined' && Boolean(globalThis.crossOriginIsolated);
+}
+
+interface ProviderAttempt {
+  provider: ExecutionProvider;
+  error: string;
+}
+
+interface OrtSessionOptions {
+  providers: ExecutionProvider[];
+  onResolved?: (provider: ExecutionProvider, failedAttempts: ProviderAttempt[]) => void;
+}
+
+async function createSessionWithProvider(buffer: ArrayBuffer, provider: ExecutionProvider) {
+  try {
+    return await ort.InferenceSession.create(buffer, { executionProviders: [provider] });
   } catch (err) {
-    if (isSimdUnavailableError(err)) {
-      forceScalarWasmBackend();
-      return ort.InferenceSession.create(buffer, {
-        executionProviders: getExecutionProviders(),
-      });
+    if (provider === 'wasm' && isSimdUnavailableError(err)) {
+      forceScalarWasmBackend('simd-unavailable');
+      return ort.InferenceSession.create(buffer, { executionProviders: [provider] });
     }
     throw err;
   }
 }
 
+// 逐个尝试后端，便于准确知道最终落在哪个后端上
+async function createOrtSession(
+  buffer: ArrayBuffer,
+  options: OrtSessionOptions = { providers: getDefaultExecutionProviders() },
+) {
+  const failedAttempts: ProviderAttempt[] = [];
+  for (const provider of options.providers) {
+    try {
+      const session = await createSessionWithProvider(buffer, provider);
+      options.onResolved?.(provider, failedAttempts);
+      return session;
+    } catch (err) {
+      failedAttempts.push({ provider, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  throw new Error(
+    `所有推理后端均初始化失败: ${failedAttempts.map((attempt) => `${attempt.provider}: ${attempt.error}`).join('; ')}`,
+  );
+}
+
+function computeIou(boxA: number[], boxB: number[]) {
+  const x1 = Math.max(boxA[0], boxB[0]);
+  const y1 = Math.max(boxA[1], boxB[1]);
+  const x2 = Math.min(boxA[2], boxB[2]);
+  const y2 = Math.min(boxA[3], boxB[3]);
+  const w = Math.max(0, x2 - x1 + 1);
+  const h = Math.max(0, y2 - y1 + 1);
+  const inter = w * h;
+  const areaA = (boxA[2] - boxA[0] + 1) * (boxA[3] - boxA[1] + 1);
+  const areaB = (boxB[2] - boxB[0] + 1) * (boxB[3] - boxB[1] + 1);
+  const union = areaA + areaB - inter;
+  return union <= 0 ? 0 : inter / union;
+}
+
+// 按模式选择 GPU 或 CPU 预处理；GPU 初始化或运行失败后退回 CPU，直到再次切换模式
+class FramePreprocessor {
+  private requested: PreprocessingMode = 'gpu';
+  private gpu: WebGLTensorPreprocessor | null = null;
+  private fallbackReason: string | null = null;
+  private frameMs = 0;
+  private averageMs: number | null = null;
+
+  setMode(mode: PreprocessingMode) {
+    if (mode === this.requested) return;
+    this.requested = mode;
+    this.fallbackReason = null;
+    this.averageMs = null;
+    if (mode === 'cpu') {
+      this.releaseGpu();
+    }
+  }
+
+  run(element: InputElement, sampling: TensorSampling, cpu: () => Float32Array) {
+    const start = performance.now();
+    const gpu = this.acquireGpu();
+    let data: Float32Array | null = null;
+    if (gpu) {
+      const { width, height } = getInputSize(element);
+      try {
+        data = gpu.process(element, width, height, sampling);
+      } catch (err) {
+        this.fail(err);
+      }
+    }
+    const result = data ?? cpu();
+    this.frameMs += performance.now() - start;
+    return result;
+  }
+
+  beginFrame() {
+    this.frameMs = 0;
+  }
+
+  // 未做任何预处理的帧（会话未开始等）不计入平均
+  endFrame() {
+    if (this.frameMs <= 0) return;
+    this.averageMs = this.averageMs === null
+      ? this.frameMs
+      : this.averageMs + (this.frameMs - this.averageMs) * PREPROCESS_TIMING_SMOOTHING;
+  }
+
+  getDiagnostics(): PreprocessingDiagnostics {
+    return {
+      requested: this.requested,
+      active: this.requested === 'gpu' && !this.fallbackReason ? 'gpu' : 'cpu',
+      fallbackReason: this.fallbackReason,
+      averageMs: this.averageMs === null ? null : Math.round(this.averageMs * 100) / 100,
+    };
+  }
+
+  dispose() {
+    this.releaseGpu();
+  }
+
+  private acquireGpu() {
+    if (this.requested !== 'gpu' || this.fallbackReason) return null;
+    if (!this.gpu) {
+      try {
+        this.gpu = new WebGLTensorPreprocessor();
+      } catch (err) {
+        this.fail(err);
+      }
+    }
+    return this.gpu;
+  }
+
+  private fail(err: unknown) {
+    this.fallbackReason = err instanceof Error ? err.message : String(err);
+    console.warn('GPU 预处理不可用，改用 CPU', err);
+    this.releaseGpu();
+  }
+
+  private releaseGpu() {
+    this.gpu?.dispose();
+    this.gpu = null;
+  }
+}
+
 class SCRFDDetector {
   private session: ort.InferenceSession | null = null;
   private inputName: string | null = null;
   private outputNames: string[] = [];
   private inputSize: [number, number] = [640, 640];
+  // 输入维度为符号维度时可按帧切换输入尺寸
+  private dynamicInput = false;
   private centerCache: Map<string, Float32Array> = new Map();
   private useKps = false;
   private _numAnchors = 1;
   private _featStrideFpn = [8, 16, 32];
   private fmc = 3;
   private batched = false;
-  private preprocessCanvas: HTMLCanvasElement;
+  private preprocessCanvas: PreprocessCanvas;
   private preCtx: CanvasRenderingContext2D;
-  private nmsThresh = 0.4;
+  private nmsThresh = DEFAULT_LIVENESS_CONFIG.nmsThreshold;
   private kpsPerAnchor = 0;
   private modelBuffer: ArrayBuffer | null = null;
+  private preprocessor: FramePreprocessor;
 
-  constructor() {
-    this.preprocessCanvas = document.createElement('canvas');
-    const ctx = this.preprocessCanvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) {
-      throw new Error('无法创建检测器预处理上下文');
-    }
+  constructor(preprocessor: FramePreprocessor) {
+    const { canvas, ctx } = createPreprocessContext('无法创建检测器预处理上下文');
+    this.preprocessCanvas = canvas;
     this.preCtx = ctx;
+    this.preprocessor = preprocessor;
   }
 
   isReady() {
     return Boolean(this.session);
   }
 
-  async loadModel(source: ModelSource) {
-    const buffer = await this.asArrayBuffer(source);
+  setNmsThreshold(threshold: number) {
+    this.nmsThresh = threshold;
+  }
+
+  async loadModel(source: ModelSource, sessionOptions?: OrtSessionOptions) {
+    const buffer = await loadModelBuffer(source);
     this.modelBuffer = buffer;
-    this.session = await createOrtSession(buffer);
+    this.session = await createOrtSession(buffer, sessionOptions);
     this.inputName = this.session.inputNames[0];
     this.outputNames = this.session.outputNames;
-    const inputMeta = this.session.inputMetadata[this.inputName];
-    const shape = inputMeta?.dimensions ?? [1, 3, 640, 640];
+    // inputMetadata 按输入顺序排列；动态输入模型的高宽为符号维度（字符串）
+    const inputMeta = this.session.inputMetadata[0];
+    const shape = inputMeta?.isTensor ? inputMeta.shape : [1, 3, 640, 640];
     if (typeof shape[2] === 'number' && typeof shape[3] === 'number') {
       this.inputSize = [shape[3], shape[2]];
+      this.dynamicInput = false;
+    } else {
+      this.inputSize = [DETECTOR_BASE_RESOLUTION, DETECTOR_BASE_RESOLUTION];
+      this.dynamicInput = true;
     }
     this.initFromOutputs();
   }
 
-  private async asArrayBuffer(source: ModelSource) {
-    const candidates = Array.isArray(source) ? source : [source];
-    const errors: string[] = [];
-    for (const entry of candidates) {
-      try {
-        if (entry instanceof ArrayBuffer) {
-          return entry;
-        }
-        if (entry instanceof Blob) {
-          return entry.arrayBuffer();
-        }
-        if (typeof entry === 'string') {
-          return await fetchModelFromUrl(entry);
-        }
-      } catch (err) {
-        errors.push(err instanceof Error ? err.message : String(err));
-      }
-    }
-    throw new Error(errors.length ? errors.join('; ') : '不支持的模型来源');
+  supportsDynamicInput() {
+    return this.dynamicInput;
+  }
+
+  getInputSize() {
+    return this.inputSize[0];
   }
 
   private initFromOutputs() {
     if (!this.session) return;
     const outCount = this.outputNames.length;
-    const meta = this.session.outputMetadata[this.outputNames[0]];
-    const dims = meta?.dimensions ?? [];
+    const meta = this.session.outputMetadata[0];
+    const dims = meta?.isTensor ? meta.shape : [];
     this.batched = dims.length === 3;
     if (outCount === 6) {
       this.fmc = 3;
@@ -368,22 +1198,24 @@ class SCRFDDetector {
     }
   }
 
-  async detectFromElement(element: InputElement, threshold = 0.5) {
+  // resolution 仅对动态输入模型生效；尺寸随调用传递，避免并发调用之间互相影响
+  async detectFromElement(element: InputElement, threshold = 0.5, resolution?: number) {
     if (!this.session || !this.inputName) {
       throw new Error('检测模型尚未加载');
     }
-    const prep = this.prepareInput(element);
+    const inputSize: [number, number] =
+      this.dynamicInput && resolution ? [resolution, resolution] : this.inputSize;
+    const prep = this.prepareInput(element, inputSize);
     const feeds: Record<string, ort.Tensor> = {};
     feeds[this.inputName] = prep.tensor;
     const result = await this.session.run(feeds);
-    const decoded = this.postprocess(result, threshold);
+    const decoded = this.postprocess(result, threshold, inputSize);
     return this.buildDetections(decoded, prep.detScale);
   }
 
-  private prepareInput(element: InputElement) {
-    const width = (element as HTMLVideoElement).videoWidth || element.width;
-    const height = (element as HTMLVideoElement).videoHeight || element.height;
-    const [targetW, targetH] = this.inputSize;
+  private prepareInput(element: InputElement, inputSize: [number, number]) {
+    const { width, height } = getInputSize(element);
+    const [targetW, targetH] = inputSize;
     const imRatio = height / width;
     const modelRatio = targetH / targetW;
 
@@ -397,42 +1229,59 @@ class SCRFDDetector {
       newHeight = Math.round(newWidth * imRatio);
     }
 
-    this.preprocessCanvas.width = targetW;
-    this.preprocessCanvas.height = targetH;
-    this.preCtx.fillStyle = 'black';
-    this.preCtx.fillRect(0, 0, targetW, targetH);
-    this.preCtx.drawImage(element, 0, 0, width, height, 0, 0, newWidth, newHeight);
-
-    const imageData = this.preCtx.getImageData(0, 0, targetW, targetH).data;
-    const area = targetW * targetH;
-    const floatData = new Float32Array(3 * area);
-    for (let i = 0; i < area; i += 1) {
-      const base = i * 4;
-      const r = imageData[base];
-      const g = imageData[base + 1];
-      const b = imageData[base + 2];
-      floatData[i] = (r - 127.5) / 128;
-      floatData[i + area] = (g - 127.5) / 128;
-      floatData[i + area * 2] = (b - 127.5) / 128;
-    }
+    const sampling: TensorSampling = {
+      width: targetW,
+      height: targetH,
+      originX: 0,
+      originY: 0,
+      stepX: width / newWidth,
+      stepY: height / newHeight,
+      mean: 127.5,
+      scale: 1 / 128,
+    };
+    const floatData = this.preprocessor.run(element, sampling, () => {
+      this.preprocessCanvas.width = targetW;
+      this.preprocessCanvas.height = targetH;
+      this.preCtx.fillStyle = 'black';
+      this.preCtx.fillRect(0, 0, targetW, targetH);
+      this.preCtx.drawImage(element, 0, 0, width, height, 0, 0, newWidth, newHeight);
+
+      const imageData = this.preCtx.getImageData(0, 0, targetW, targetH).data;
+      const area = targetW * targetH;
+      const data = new Float32Array(3 * area);
+      for (let i = 0; i < area; i += 1) {
+        const base = i * 4;
+        const r = imageData[base];
+        const g = imageData[base + 1];
+        const b = imageData[base + 2];
+        data[i] = (r - 127.5) / 128;
+        data[i + area] = (g - 127.5) / 128;
+        data[i + area * 2] = (b - 127.5) / 128;
+      }
+      return data;
+    });
 
     const tensor = new ort.Tensor('float32', floatData, [1, 3, targetH, targetW]);
     const detScale = newHeight / height;
     return { tensor, detScale };
   }
 
-  private postprocess(result: ort.InferenceSession.OnnxValueMapType, threshold: number) {
+  private postprocess(
+    result: ort.InferenceSession.OnnxValueMapType,
+    threshold: number,
+    inputSize: [number, number],
+  ) {
     const netOuts = this.outputNames.map((name) => result[name]);
     const scoresList: Float32Array[] = [];
     const bboxList: Float32Array[] = [];
     const kpsList: Float32Array[] = [];
-    const inputHeight = this.inputSize[1];
-    const inputWidth = this.inputSize[0];
+    const [inputWidth, inputHeight] = inputSize;
 
     for (let idx = 0; idx < this.fmc; idx += 1) {
       const stride = this._featStrideFpn[idx];
-      const height = Math.floor(inputHeight / stride);
-      const width = Math.floor(inputWidth / stride);
+      // 卷积步长带 padding，不能整除时特征图向上取整
+      const height = Math.ceil(inputHeight / stride);
+      const width = Math.ceil(inputWidth / stride);
       const anchorCenters = this.getAnchorCenters(height, width, stride);
       const K = height * width * this._numAnchors;
 
@@ -629,7 +1478,7 @@ class SCRFDDetector {
       keep.push(current);
       for (let i = objects.length - 1; i >= 0; i -= 1) {
         const candidate = objects[i];
-        const iou = this.iou(current.bbox, candidate.bbox);
+        const iou = computeIou(current.bbox, candidate.bbox);
         if (iou > this.nmsThresh) {
           objects.splice(i, 1);
         }
@@ -638,19 +1487,6 @@ class SCRFDDetector {
     return keep.map(({ bbox, score, kps }) => ({ bbox, score, kps }));
   }
 
-  private iou(boxA: number[], boxB: number[]) {
-    const x1 = Math.max(boxA[0], boxB[0]);
-    const y1 = Math.max(boxA[1], boxB[1]);
-    const x2 = Math.min(boxA[2], boxB[2]);
-    const y2 = Math.min(boxA[3], boxB[3]);
-    const w = Math.max(0, x2 - x1 + 1);
-    const h = Math.max(0, y2 - y1 + 1);
-    const inter = w * h;
-    const areaA = (boxA[2] - boxA[0] + 1) * (boxA[3] - boxA[1] + 1);
-    const areaB = (boxB[2] - boxB[0] + 1) * (boxB[3] - boxB[1] + 1);
-    const union = areaA + areaB - inter;
-    return union <= 0 ? 0 : inter / union;
-  }
 }
 
 class LandmarkEstimator {
@@ -658,63 +1494,38 @@ class LandmarkEstimator {
   private inputName: string | null = null;
   private outputNames: string[] = [];
   private inputSize: [number, number] = [112, 112];
-  private cropCanvas: HTMLCanvasElement;
+  private cropCanvas: PreprocessCanvas;
   private cropCtx: CanvasRenderingContext2D;
-  private preprocessCanvas: HTMLCanvasElement;
+  private preprocessCanvas: PreprocessCanvas;
   private preCtx: CanvasRenderingContext2D;
-
-  constructor() {
-    this.cropCanvas = document.createElement('canvas');
-    const cropCtx = this.cropCanvas.getContext('2d', { willReadFrequently: true });
-    if (!cropCtx) {
-      throw new Error('无法创建关键点裁剪上下文');
-    }
-    this.cropCtx = cropCtx;
-    this.preprocessCanvas = document.createElement('canvas');
-    const preCtx = this.preprocessCanvas.getContext('2d', { willReadFrequently: true });
-    if (!preCtx) {
-      throw new Error('无法创建关键点预处理上下文');
-    }
-    this.preCtx = preCtx;
+  private preprocessor: FramePreprocessor;
+
+  constructor(preprocessor: FramePreprocessor) {
+    const crop = createPreprocessContext('无法创建关键点裁剪上下文');
+    this.cropCanvas = crop.canvas;
+    this.cropCtx = crop.ctx;
+    const pre = createPreprocessContext('无法创建关键点预处理上下文');
+    this.preprocessCanvas = pre.canvas;
+    this.preCtx = pre.ctx;
+    this.preprocessor = preprocessor;
   }
 
   isReady() {
     return Boolean(this.session);
   }
 
-  async loadModel(source: ModelSource) {
-    const buffer = await this.asArrayBuffer(source);
-    this.session = await createOrtSession(buffer);
+  async loadModel(source: ModelSource, sessionOptions?: OrtSessionOptions) {
+    const buffer = await loadModelBuffer(source);
+    this.session = await createOrtSession(buffer, sessionOptions);
     this.inputName = this.session.inputNames[0];
     this.outputNames = this.session.outputNames;
-    const inputMeta = this.session.inputMetadata[this.inputName];
-    const shape = inputMeta?.dimensions ?? [1, 3, 112, 112];
+    const inputMeta = this.session.inputMetadata[0];
+    const shape = inputMeta?.isTensor ? inputMeta.shape : [1, 3, 112, 112];
     if (typeof shape[2] === 'number' && typeof shape[3] === 'number') {
       this.inputSize = [shape[3], shape[2]];
     }
   }
 
-  private async asArrayBuffer(source: ModelSource) {
-    const candidates = Array.isArray(source) ? source : [source];
-    const errors: string[] = [];
-    for (const entry of candidates) {
-      try {
-        if (entry instanceof ArrayBuffer) {
-          return entry;
-        }
-        if (entry instanceof Blob) {
-          return entry.arrayBuffer();
-        }
-        if (typeof entry === 'string') {
-          return await fetchModelFromUrl(entry);
-        }
-      } catch (err) {
-        errors.push(err instanceof Error ? err.message : String(err));
-      }
-    }
-    throw new Error(errors.length ? errors.join('; ') : '不支持的模型来源');
-  }
-
   async estimate(element: InputElement, bbox: [number, number, number, number]) {
     if (!this.session || !this.inputName) {
       throw new Error('关键点模型尚未加载');
@@ -755,8 +1566,7 @@ class LandmarkEstimator {
   }
 
   private prepareInput(element: InputElement, bbox: [number, number, number, number]) {
-    const width = (element as HTMLVideoElement).videoWidth || element.width;
-    const height = (element as HTMLVideoElement).videoHeight || element.height;
+    const { width, height } = getInputSize(element);
     if (!width || !height) {
       throw new Error('输入尺寸无效');
     }
@@ -785,40 +1595,53 @@ class LandmarkEstimator {
     const drawWidth = Math.max(0, drawX2 - drawX1);
     const drawHeight = Math.max(0, drawY2 - drawY1);
 
-    this.cropCanvas.width = sizeW;
-    this.cropCanvas.height = sizeH;
-    this.cropCtx.fillStyle = 'black';
-    this.cropCtx.fillRect(0, 0, sizeW, sizeH);
-    if (drawWidth > 0 && drawHeight > 0) {
-      this.cropCtx.drawImage(
-        element,
-        drawX1,
-        drawY1,
-        drawWidth,
-        drawHeight,
-        leftPad,
-        topPad,
-        drawWidth,
-        drawHeight,
-      );
-    }
-
     const [targetW, targetH] = this.inputSize;
-    this.preprocessCanvas.width = targetW;
-    this.preprocessCanvas.height = targetH;
-    this.preCtx.drawImage(this.cropCanvas, 0, 0, sizeW, sizeH, 0, 0, targetW, targetH);
-    const imageData = this.preCtx.getImageData(0, 0, targetW, targetH).data;
-    const area = targetW * targetH;
-    const floatData = new Float32Array(area * 3);
-    for (let i = 0; i < area; i += 1) {
-      const base = i * 4;
-      floatData[i] = imageData[base] / 255;
-      floatData[i + area] = imageData[base + 1] / 255;
-      floatData[i + area * 2] = imageData[base + 2] / 255;
-    }
-    const tensor = new ort.Tensor('float32', floatData, [1, 3, targetH, targetW]);
-    return {
-      tensor,
+    const sampling: TensorSampling = {
+      width: targetW,
+      height: targetH,
+      originX: cropX1,
+      originY: cropY1,
+      stepX: sizeW / targetW,
+      stepY: sizeH / targetH,
+      mean: 0,
+      scale: 1 / 255,
+    };
+    const floatData = this.preprocessor.run(element, sampling, () => {
+      this.cropCanvas.width = sizeW;
+      this.cropCanvas.height = sizeH;
+      this.cropCtx.fillStyle = 'black';
+      this.cropCtx.fillRect(0, 0, sizeW, sizeH);
+      if (drawWidth > 0 && drawHeight > 0) {
+        this.cropCtx.drawImage(
+          element,
+          drawX1,
+          drawY1,
+          drawWidth,
+          drawHeight,
+          leftPad,
+          topPad,
+          drawWidth,
+          drawHeight,
+        );
+      }
+
+      this.preprocessCanvas.width = targetW;
+      this.preprocessCanvas.height = targetH;
+      this.preCtx.drawImage(this.cropCanvas, 0, 0, sizeW, sizeH, 0, 0, targetW, targetH);
+      const imageData = this.preCtx.getImageData(0, 0, targetW, targetH).data;
+      const area = targetW * targetH;
+      const data = new Float32Array(area * 3);
+      for (let i = 0; i < area; i += 1) {
+        const base = i * 4;
+        data[i] = imageData[base] / 255;
+        data[i + area] = imageData[base + 1] / 255;
+        data[i + area * 2] = imageData[base + 2] / 255;
+      }
+      return data;
+    });
+    const tensor = new ort.Tensor('float32', floatData, [1, 3, targetH, targetW]);
+    return {
+      tensor,
       meta: {
         originX: drawX1 - leftPad,
         originY: drawY1 - topPad,
@@ -869,6 +1692,517 @@ class LandmarkEstimator {
   }
 }
 
+class AntiSpoofClassifier {
+  private session: ort.InferenceSession | null = null;
+  private inputName: string | null = null;
+  private outputNames: string[] = [];
+  private inputSize: [number, number] = [80, 80];
+  private preprocessCanvas: PreprocessCanvas;
+  private preCtx: CanvasRenderingContext2D;
+
+  constructor() {
+    const { canvas, ctx } = createPreprocessContext('无法创建活体分类预处理上下文');
+    this.preprocessCanvas = canvas;
+    this.preCtx = ctx;
+  }
+
+  isReady() {
+    return Boolean(this.session);
+  }
+
+  async loadModel(source: ModelSource, sessionOptions?: OrtSessionOptions) {
+    const buffer = await loadModelBuffer(source);
+    this.session = await createOrtSession(buffer, sessionOptions);
+    this.inputName = this.session.inputNames[0];
+    this.outputNames = this.session.outputNames.slice();
+    const inputMeta = this.session.inputMetadata[0];
+    const shape = inputMeta?.isTensor ? inputMeta.shape : [1, 3, 80, 80];
+    if (typeof shape[2] === 'number' && typeof shape[3] === 'number') {
+      this.inputSize = [shape[3], shape[2]];
+    }
+  }
+
+  async classify(element: InputElement, bbox: [number, number, number, number]) {
+    if (!this.session || !this.inputName) {
+      throw new Error('活体分类模型尚未加载');
+    }
+    const tensor = this.prepareInput(element, bbox);
+    if (!tensor) return null;
+    const feeds: Record<string, ort.Tensor> = {};
+    feeds[this.inputName] = tensor;
+    const result = await this.session.run(feeds);
+    const output = result[this.outputNames[0]];
+    if (!output) return null;
+    const logits = output.data as Float32Array;
+    if (!logits.length || logits.length <= ANTI_SPOOF_REAL_CLASS_INDEX) return null;
+    const maxLogit = Math.max(...Array.from(logits));
+    let expSum = 0;
+    const exps = Array.from(logits, (value) => {
+      const exp = Math.exp(value - maxLogit);
+      expSum += exp;
+      return exp;
+    });
+    const realProbability = exps[ANTI_SPOOF_REAL_CLASS_INDEX] / expSum;
+    return 1 - realProbability;
+  }
+
+  private prepareInput(element: InputElement, bbox: [number, number, number, number]) {
+    const { width, height } = getInputSize(element);
+    if (!width || !height) return null;
+    const [x1, y1, x2, y2] = bbox;
+    const boxW = Math.max(1, x2 - x1);
+    const boxH = Math.max(1, y2 - y1);
+    const scale = Math.min(ANTI_SPOOF_CROP_SCALE, (height - 1) / boxH, (width - 1) / boxW);
+    const cropW = boxW * scale;
+    const cropH = boxH * scale;
+    const cx = x1 + boxW / 2;
+    const cy = y1 + boxH / 2;
+    const cropX = Math.min(Math.max(0, cx - cropW / 2), width - cropW);
+    const cropY = Math.min(Math.max(0, cy - cropH / 2), height - cropH);
+
+    const [targetW, targetH] = this.inputSize;
+    this.preprocessCanvas.width = targetW;
+    this.preprocessCanvas.height = targetH;
+    this.preCtx.drawImage(element, cropX, cropY, cropW, cropH, 0, 0, targetW, targetH);
+    const imageData = this.preCtx.getImageData(0, 0, targetW, targetH).data;
+    const area = targetW * targetH;
+    const floatData = new Float32Array(area * 3);
+    for (let i = 0; i < area; i += 1) {
+      const base = i * 4;
+      floatData[i] = imageData[base + 2];
+      floatData[i + area] = imageData[base + 1];
+      floatData[i + area * 2] = imageData[base];
+    }
+    return new ort.Tensor('float32', floatData, [1, 3, targetH, targetW]);
+  }
+}
+
+class FaceEmbedder {
+  private session: ort.InferenceSession | null = null;
+  private inputName: string | null = null;
+  private outputNames: string[] = [];
+  private inputSize = 112;
+  private preprocessCanvas: PreprocessCanvas;
+  private preCtx: CanvasRenderingContext2D;
+
+  constructor() {
+    const { canvas, ctx } = createPreprocessContext('无法创建人脸特征预处理上下文');
+    this.preprocessCanvas = canvas;
+    this.preCtx = ctx;
+  }
+
+  isReady() {
+    return Boolean(this.session);
+  }
+
+  async loadModel(source: ModelSource, sessionOptions?: OrtSessionOptions) {
+    const buffer = await loadModelBuffer(source);
+    this.session = await createOrtSession(buffer, sessionOptions);
+    this.inputName = this.session.inputNames[0];
+    this.outputNames = this.session.outputNames.slice();
+    const inputMeta = this.session.inputMetadata[0];
+    const shape = inputMeta?.isTensor ? inputMeta.shape : [1, 3, 112, 112];
+    if (typeof shape[2] === 'number') {
+      this.inputSize = shape[2];
+    }
+  }
+
+  async embed(element: InputElement, kps: Array<{ x: number; y: number }>) {
+    if (!this.session || !this.inputName) {
+      throw new Error('人脸特征模型尚未加载');
+    }
+    const tensor = this.prepareInput(element, kps);
+    if (!tensor) return null;
+    const feeds: Record<string, ort.Tensor> = {};
+    feeds[this.inputName] = tensor;
+    const result = await this.session.run(feeds);
+    const output = result[this.outputNames[0]];
+    if (!output) return null;
+    const embedding = Float32Array.from(output.data as Float32Array);
+    let norm = 0;
+    for (let i = 0; i < embedding.length; i += 1) {
+      norm += embedding[i] * embedding[i];
+    }
+    norm = Math.sqrt(norm);
+    if (!norm) return null;
+    for (let i = 0; i < embedding.length; i += 1) {
+      embedding[i] /= norm;
+    }
+    return embedding;
+  }
+
+  // ArcFace 输入：按 5 点模板对齐后的 RGB，归一化到 [-1, 1]
+  private prepareInput(element: InputElement, kps: Array<{ x: number; y: number }>) {
+    const size = this.inputSize;
+    this.preprocessCanvas.width = size;
+    this.preprocessCanvas.height = size;
+    if (!drawAlignedFace(this.preCtx, element, kps, size)) return null;
+    const imageData = this.preCtx.getImageData(0, 0, size, size).data;
+    const area = size * size;
+    const floatData = new Float32Array(area * 3);
+    for (let i = 0; i < area; i += 1) {
+      const base = i * 4;
+      floatData[i] = (imageData[base] - 127.5) / 127.5;
+      floatData[i + area] = (imageData[base + 1] - 127.5) / 127.5;
+      floatData[i + area * 2] = (imageData[base + 2] - 127.5) / 127.5;
+    }
+    return new ort.Tensor('float32', floatData, [1, 3, size, size]);
+  }
+}
+
+// 两个已归一化特征的余弦相似度，范围 [-1, 1]
+export function compareFaces(a: ArrayLike<number>, b: ArrayLike<number>) {
+  if (a.length !== b.length || !a.length) {
+    throw new Error('人脸特征维度不一致');
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (!normA || !normB) return 0;
+  return Math.max(-1, Math.min(1, dot / Math.sqrt(normA * normB)));
+}
+
+// bbox 信号同时覆盖 SCRFD 的 5 个关键点
+class DetectionSmoother {
+  private filters: Partial<Record<SmoothingSignal, OneEuroVectorFilter>> = {};
+
+  constructor(options: SmoothingOptions = {}) {
+    (Object.keys(DEFAULT_SMOOTHING) as SmoothingSignal[]).forEach((signal) => {
+      const override = options[signal];
+      if (override === false) return;
+      this.filters[signal] = new OneEuroVectorFilter({ ...DEFAULT_SMOOTHING[signal], ...override });
+    });
+  }
+
+  apply(detection: DetectionWithLandmarks, timestampMs: number): DetectionWithLandmarks {
+    const { landmarks: landmarkFilter, pose: poseFilter, bbox: bboxFilter } = this.filters;
+    const smoothed: DetectionWithLandmarks = { ...detection };
+    if (bboxFilter) {
+      const kps = detection.kps ?? [];
+      const values = bboxFilter.filter(
+        [...detection.bbox, ...kps.flatMap((point) => [point.x, point.y])],
+        timestampMs,
+      );
+      smoothed.bbox = [values[0], values[1], values[2], values[3]];
+      if (detection.kps) {
+        smoothed.kps = kps.map((_, index) => ({ x: values[4 + index * 2], y: values[5 + index * 2] }));
+      }
+    }
+    if (landmarkFilter) {
+      const values = landmarkFilter.filter(detection.landmarks.flatMap((point) => [point.x, point.y]), timestampMs);
+      smoothed.landmarks = detection.landmarks.map((point, index) =>
+        index >= UNSMOOTHED_LANDMARK_START && index <= UNSMOOTHED_LANDMARK_END
+          ? point
+          : { x: values[index * 2], y: values[index * 2 + 1] },
+      );
+    }
+    if (poseFilter && detection.pose) {
+      const [yaw, pitch, roll] = poseFilter.filter([detection.pose.yaw, detection.pose.pitch, detection.pose.roll], timestampMs);
+      smoothed.pose = { yaw, pitch, roll };
+    }
+    return smoothed;
+  }
+
+  reset() {
+    Object.values(this.filters).forEach((filter) => filter?.reset());
+  }
+}
+
+function resolveAdaptiveResolution(options: AdaptiveResolutionOptions = {}): Required<AdaptiveResolutionOptions> {
+  const resolved = { ...DEFAULT_ADAPTIVE_RESOLUTION, ...options };
+  const resolutions = Array.from(new Set(resolved.resolutions)).sort((a, b) => a - b);
+  if (!resolutions.length || resolutions.some((size) => !Number.isInteger(size) || size < 64 || size % 32 !== 0)) {
+    throw new Error(`检测分辨率必须为不小于 64 的 32 的倍数: ${resolved.resolutions.join(', ')}`);
+  }
+  if (!(resolved.minFps > 0) || !(resolved.minFacePixels > 0)) {
+    throw new Error('adaptiveResolution 的 minFps / minFacePixels 必须大于 0');
+  }
+  return { ...resolved, resolutions, cooldownFrames: Math.max(1, Math.round(resolved.cooldownFrames)) };
+}
+
+// 帧率不足且降档后人脸仍足够大时降低检测分辨率；人脸过小或持续丢失时升高
+class AdaptiveResolutionController {
+  private options: Required<AdaptiveResolutionOptions>;
+  private index: number;
+  private frameIntervalMs: number | null = null;
+  private lastTimestamp: number | null = null;
+  private framesSinceSwitch = 0;
+  private missedFrames = 0;
+
+  constructor(options: AdaptiveResolutionOptions) {
+    this.options = resolveAdaptiveResolution(options);
+    this.index = this.options.resolutions.length - 1;
+  }
+
+  get resolution() {
+    return this.options.resolutions[this.index];
+  }
+
+  get candidates() {
+    return this.options.resolutions.slice();
+  }
+
+  // 每帧调用一次（包括跳过检测的跟踪帧），帧率按全部帧统计
+  recordFrame(timestampMs: number) {
+    if (this.lastTimestamp !== null) {
+      const interval = timestampMs - this.lastTimestamp;
+      if (interval > 0 && interval < FPS_MAX_FRAME_GAP_MS) {
+        this.frameIntervalMs =
+          this.frameIntervalMs === null ? interval : this.frameIntervalMs + (interval - this.frameIntervalMs) * FPS_SMOOTHING;
+      }
+    }
+    this.lastTimestamp = timestampMs;
+    this.framesSinceSwitch += 1;
+  }
+
+  // 仅在检测帧调用；faceRatio：人脸框短边与画面长边之比，乘以检测边长即为检测输入中的人脸像素
+  update(faceRatio: number | null) {
+    this.missedFrames = faceRatio === null ? this.missedFrames + 1 : 0;
+    if (this.framesSinceSwitch < this.options.cooldownFrames) return this.resolution;
+
+    const { resolutions, minFps, minFacePixels, cooldownFrames } = this.options;
+    const canGrow = this.index < resolutions.length - 1;
+    if (faceRatio === null) {
+      // 低分辨率下远处的小脸可能根本检不出，连续丢失后回到更高分辨率
+      if (canGrow && this.missedFrames >= cooldownFrames) this.switchTo(this.index + 1);
+      return this.resolution;
+    }
+    if (canGrow && faceRatio * this.resolution < minFacePixels) {
+      this.switchTo(this.index + 1);
+      return this.resolution;
+    }
+    const fps = this.frameIntervalMs ? 1000 / this.frameIntervalMs : null;
+    if (
+      this.index > 0 &&
+      fps !== null &&
+      fps < minFps &&
+      faceRatio * resolutions[this.index - 1] >= minFacePixels * RESOLUTION_DOWNSCALE_MARGIN
+    ) {
+      this.switchTo(this.index - 1);
+    }
+    return this.resolution;
+  }
+
+  // 会话之间保留当前档位，只清空帧率统计
+  reset() {
+    this.frameIntervalMs = null;
+    this.lastTimestamp = null;
+    this.framesSinceSwitch = 0;
+    this.missedFrames = 0;
+  }
+
+  private switchTo(index: number) {
+    this.index = index;
+    this.framesSinceSwitch = 0;
+    this.missedFrames = 0;
+    // 切换后的首帧包含新尺寸的初始化开销，不计入帧率
+    this.frameIntervalMs = null;
+    this.lastTimestamp = null;
+  }
+}
+
+function getLandmarkBounds(landmarks: Array<{ x: number; y: number }>): [number, number, number, number] {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  landmarks.forEach((point) => {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  });
+  return [minX, minY, maxX, maxY];
+}
+
+// 数值在范围中点为 1，越靠近边界越低，超出范围为 0
+function scoreInRange(value: number, [min, max]: [number, number]) {
+  const half = (max - min) / 2;
+  return Math.max(0, 1 - Math.abs(value - (min + half)) / half);
+}
+
+// 人脸离开跟踪框后关键点模型仍会输出一组点，但眼-鼻-嘴-下巴的顺序和比例通常不再成立。
+// 以两眼连线的法向作为脸部纵轴，兼容头部侧倾；返回 0~1
+function computeLandmarkPresence(landmarks: Array<{ x: number; y: number }>) {
+  if (landmarks.length < 98) return 0;
+  const left = landmarks[96];
+  const right = landmarks[97];
+  const iod = pointDistance(left, right);
+  const faceWidth = pointDistance(landmarks[0], landmarks[32]);
+  if (!iod || !faceWidth) return 0;
+  const axisX = -(right.y - left.y) / iod;
+  const axisY = (right.x - left.x) / iod;
+  const eyeMid = { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 };
+  const along = (point: { x: number; y: number }) => ((point.x - eyeMid.x) * axisX + (point.y - eyeMid.y) * axisY) / iod;
+  const nose = along(landmarks[54]);
+  const mouth = along({ x: (landmarks[76].x + landmarks[82].x) / 2, y: (landmarks[76].y + landmarks[82].y) / 2 });
+  const chin = along(landmarks[16]);
+  if (!(nose > 0 && mouth > nose && chin > mouth)) return 0;
+  return Math.min(
+    scoreInRange(iod / faceWidth, PRESENCE_IOD_RATIO_RANGE),
+    scoreInRange(mouth, PRESENCE_MOUTH_RATIO_RANGE),
+  );
+}
+
+interface LocatedFace {
+  detection: Detection;
+  estimate: { landmarks: Array<{ x: number; y: number }>; pose: Pose | null };
+  tracking: FaceTrackingMetrics | null;
+}
+
+// 检测帧记录 SCRFD 框相对关键点外接框的边距，跟踪帧按同样的边距由关键点推回人脸框
+class LandmarkTracker {
+  private options: Required<LandmarkTrackingOptions>;
+  private margins: [number, number, number, number] | null = null;
+  private last: Detection | null = null;
+  private framesSinceDetection = 0;
+  private redetectRequested = false;
+
+  constructor(options: LandmarkTrackingOptions = {}) {
+    this.options = { ...DEFAULT_LANDMARK_TRACKING, ...options };
+    this.options.redetectInterval = Math.max(1, Math.round(this.options.redetectInterval));
+  }
+
+  // 返回可直接用于关键点估计的上一帧人脸框；需要完整检测时返回 null
+  next() {
+    if (!this.last || !this.margins || this.redetectRequested) return null;
+    if (this.framesSinceDetection + 1 >= this.options.redetectInterval) return null;
+    return this.last;
+  }
+
+  initialize(detection: Detection, landmarks: Array<{ x: number; y: number }>) {
+    const [lx1, ly1, lx2, ly2] = getLandmarkBounds(landmarks);
+    const lw = lx2 - lx1;
+    const lh = ly2 - ly1;
+    if (!landmarks.length || lw <= 0 || lh <= 0) {
+      this.reset();
+      return this.buildMetrics('detect', null);
+    }
+    const [x1, y1, x2, y2] = detection.bbox;
+    this.margins = [(lx1 - x1) / lw, (ly1 - y1) / lh, (x2 - lx2) / lw, (y2 - ly2) / lh];
+    this.last = detection;
+    this.framesSinceDetection = 0;
+    this.redetectRequested = false;
+    return this.buildMetrics('detect', null);
+  }
+
+  // 置信度或人脸可信度不足时返回 null，调用方应在本帧重新检测
+  follow(input: Detection, landmarks: Array<{ x: number; y: number }>) {
+    if (!this.margins || landmarks.length < 98) return null;
+    // 框的 IoU 只说明关键点没有漂移，不能说明框内仍有人脸，需另外校验关键点几何
+    const presence = computeLandmarkPresence(landmarks);
+    if (presence < this.options.minPresence) return null;
+    const [lx1, ly1, lx2, ly2] = getLandmarkBounds(landmarks);
+    const lw = lx2 - lx1;
+    const lh = ly2 - ly1;
+    if (lw <= 0 || lh <= 0) return null;
+    const [left, top, right, bottom] = this.margins;
+    const bbox: [number, number, number, number] = [lx1 - left * lw, ly1 - top * lh, lx2 + right * lw, ly2 + bottom * lh];
+    const confidence = computeIou(input.bbox, bbox);
+    if (confidence < this.options.minConfidence) return null;
+    const inputWidth = input.bbox[2] - input.bbox[0];
+    const motion = inputWidth > 0
+      ? Math.hypot(
+        (bbox[0] + bbox[2] - input.bbox[0] - input.bbox[2]) / 2,
+        (bbox[1] + bbox[3] - input.bbox[1] - input.bbox[3]) / 2,
+      ) / inputWidth
+      : Infinity;
+    // 快速移动时关键点可能被拖拽，本帧结果仍可用，但下一帧重新检测
+    this.redetectRequested = motion > this.options.maxMotion;
+    this.framesSinceDetection += 1;
+    this.last = {
+      bbox,
+      score: presence,
+      kps: WFLW_FIVE_POINT_INDICES.map((index) => ({ x: landmarks[index].x, y: landmarks[index].y })),
+    };
+    return { detection: this.last, metrics: this.buildMetrics('track', confidence, presence) };
+  }
+
+  reset() {
+    this.margins = null;
+    this.last = null;
+    this.framesSinceDetection = 0;
+    this.redetectRequested = false;
+  }
+
+  private buildMetrics(mode: FaceTrackingMode, confidence: number | null, presence: number | null = null): FaceTrackingMetrics {
+    return {
+      mode,
+      confidence: confidence === null ? null : Math.round(confidence * 1000) / 1000,
+      presence: presence === null ? null : Math.round(presence * 1000) / 1000,
+      framesSinceDetection: this.framesSinceDetection,
+    };
+  }
+}
+
+class ScreenReplaySampler {
+  private canvas: PreprocessCanvas;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor() {
+    const { canvas, ctx } = createPreprocessContext('无法创建翻拍检测上下文');
+    this.canvas = canvas;
+    this.ctx = ctx;
+    this.canvas.width = SCREEN_REPLAY_ROI_SIZE;
+    this.canvas.height = SCREEN_REPLAY_ROI_SIZE;
+  }
+
+  analyze(element: InputElement, bbox: [number, number, number, number]) {
+    const { width, height } = getInputSize(element);
+    if (!width || !height) return null;
+    const [x1, y1, x2, y2] = bbox;
+    const side = Math.min(x2 - x1, y2 - y1) * SCREEN_REPLAY_ROI_RATIO;
+    if (side < 8) return null;
+    const cx = (x1 + x2) / 2;
+    const cy = (y1 + y2) / 2;
+    const sx = Math.min(Math.max(0, cx - side / 2), width - side);
+    const sy = Math.min(Math.max(0, cy - side / 2), height - side);
+    // 关闭插值，避免缩放时把摩尔纹等高频成分平滑掉
+    this.ctx.imageSmoothingEnabled = false;
+    this.ctx.drawImage(element, sx, sy, side, side, 0, 0, SCREEN_REPLAY_ROI_SIZE, SCREEN_REPLAY_ROI_SIZE);
+    const imageData = this.ctx.getImageData(0, 0, SCREEN_REPLAY_ROI_SIZE, SCREEN_REPLAY_ROI_SIZE).data;
+    return analyzeScreenReplay(imageData, SCREEN_REPLAY_ROI_SIZE);
+  }
+}
+
+// 以关键点外接框截取包含额头的正方形人脸区域，缩放后交给 analyzeOcclusion
+class OcclusionSampler {
+  private canvas: PreprocessCanvas;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor() {
+    const { canvas, ctx } = createPreprocessContext('无法创建遮挡检测上下文');
+    this.canvas = canvas;
+    this.ctx = ctx;
+    this.canvas.width = OCCLUSION_ROI_SIZE;
+    this.canvas.height = OCCLUSION_ROI_SIZE;
+  }
+
+  analyze(element: InputElement, landmarks: Array<{ x: number; y: number }>, threshold: number) {
+    const { width, height } = getInputSize(element);
+    if (!width || !height || landmarks.length < 98) return null;
+    const [x1, y1, x2, y2] = getLandmarkBounds(landmarks);
+    const side = Math.max(x2 - x1, y2 - y1) * OCCLUSION_ROI_SCALE;
+    if (side < 16) return null;
+    const sx = (x1 + x2) / 2 - side / 2;
+    const sy = (y1 + y2) / 2 - side / 2 - side * OCCLUSION_ROI_SHIFT;
+    const scale = OCCLUSION_ROI_SIZE / side;
+    // 超出画面的部分填黑；额头落在画面外时 analyzeOcclusion 会改用通用肤色作参考
+    this.ctx.fillStyle = '#000';
+    this.ctx.fillRect(0, 0, OCCLUSION_ROI_SIZE, OCCLUSION_ROI_SIZE);
+    this.ctx.imageSmoothingEnabled = true;
+    this.ctx.drawImage(element, sx, sy, side, side, 0, 0, OCCLUSION_ROI_SIZE, OCCLUSION_ROI_SIZE);
+    const imageData = this.ctx.getImageData(0, 0, OCCLUSION_ROI_SIZE, OCCLUSION_ROI_SIZE).data;
+    const local = landmarks.map((point) => ({ x: (point.x - sx) * scale, y: (point.y - sy) * scale }));
+    return analyzeOcclusion(imageData, OCCLUSION_ROI_SIZE, local, threshold);
+  }
+}
+
 function toCanvasPoint(point?: { x: number; y: number } | null) {
   if (!point || typeof point.x !== 'number' || typeof point.y !== 'number') {
     return null;
@@ -912,7 +2246,7 @@ function toPoseDegrees(pose: Pose | null) {
   };
 }
 
-function computePoseScore(pose: Pose | null) {
+function computePoseScore(pose: Pose | null, sigma: number) {
   if (!pose) return null;
   const { yaw, pitch, roll } = pose;
   const dist = Math.sqrt(
@@ -920,7 +2254,7 @@ function computePoseScore(pose: Pose | null) {
     (pitch * POSE_SCORE_WEIGHTS.pitch) ** 2 +
     (roll * POSE_SCORE_WEIGHTS.roll) ** 2,
   );
-  const score = 100 * Math.exp(-(dist ** 2) / (2 * POSE_SCORE_SIGMA ** 2));
+  const score = 100 * Math.exp(-(dist ** 2) / (2 * sigma ** 2));
   const rounded = Math.round(score * 100) / 100;
   return Math.max(0, Math.min(100, rounded));
 }
@@ -978,62 +2312,134 @@ function computeBlinkRatios(det: DetectionWithLandmarks | null) {
   const leftRatio = leftHeight === 0 ? Infinity : leftWidth / leftHeight;
   const rightRatio = rightHeight === 0 ? Infinity : rightWidth / rightHeight;
   const ratio = Math.min(leftRatio, rightRatio);
+  const leftEar = computeEyeAspectRatio(det.landmarks, 60, 64, [[61, 67], [62, 66], [63, 65]]);
+  const rightEar = computeEyeAspectRatio(det.landmarks, 68, 72, [[69, 75], [70, 74], [71, 73]]);
+  const ear = leftEar !== null && rightEar !== null ? (leftEar + rightEar) / 2 : null;
   return {
     leftHeight,
     rightHeight,
     leftRatio,
     rightRatio,
     ratio,
+    leftEar,
+    rightEar,
+    ear,
   };
 }
 
-function updateBlinkState(metrics: ReturnType<typeof computeBlinkRatios>, state: LivenessComputationState) {
-  if (!metrics) return;
-  const blinkState = state.blink;
-  if (!Number.isFinite(blinkState.eyeAvg ?? NaN)) {
-    blinkState.eyeAvg = INITIAL_BLINK_AVG;
-  }
-  const threshold = blinkState.eyeAvg as number;
-  const closedDetected =
-    metrics.leftHeight === 0 ||
-    metrics.rightHeight === 0 ||
-    (typeof metrics.ratio === 'number' && metrics.leftRatio > threshold && metrics.rightRatio > threshold);
-  if (closedDetected) {
-    blinkState.closedDetected = true;
-  }
-  const openDetected =
-    metrics.leftHeight > 0 &&
-    metrics.rightHeight > 0 &&
-    metrics.leftRatio < threshold &&
-    metrics.rightRatio < threshold;
-  if (openDetected) {
-    blinkState.openDetected = true;
+// WFLW 眼部轮廓 8 点：两个眼角 + 三对上下眼睑点，EAR = 平均眼睑间距 / 眼角间距
+function computeEyeAspectRatio(
+  landmarks: Array<{ x: number; y: number }>,
+  cornerA: number,
+  cornerB: number,
+  pairs: Array<[number, number]>,
+) {
+  const width = pointDistance(landmarks[cornerA], landmarks[cornerB]);
+  if (!width) return null;
+  let heightSum = 0;
+  for (const [upper, lower] of pairs) {
+    const height = pointDistance(landmarks[upper], landmarks[lower]);
+    if (height === null) return null;
+    heightSum += height;
   }
-  updateBlinkAverage(metrics.ratio, state);
+  return heightSum / pairs.length / width;
 }
 
-function updateBlinkAverage(ratio: number | null | undefined, state: LivenessComputationState) {
-  if (typeof ratio !== 'number' || !Number.isFinite(ratio)) {
-    return;
-  }
+function createBlinkState(): BlinkState {
+  return {
+    phase: 'open',
+    baselineEar: null,
+    baselineSamples: 0,
+    startedAt: null,
+    count: 0,
+    rejectedCount: 0,
+    lastDurationMs: null,
+  };
+}
+
+// open → closing → closed → opening → open；只有闭合时长落在合理区间内才计为一次眨眼
+function updateBlinkState(
+  metrics: ReturnType<typeof computeBlinkRatios>,
+  state: LivenessComputationState,
+  timestampMs: number,
+) {
+  const ear = metrics?.ear;
+  if (typeof ear !== 'number' || !Number.isFinite(ear)) return;
   const blinkState = state.blink;
-  if (!Number.isFinite(blinkState.eyeAvg ?? NaN)) {
-    blinkState.eyeAvg = ratio;
+  const baseline = blinkState.baselineEar;
+  if (baseline === null || blinkState.baselineSamples < MIN_BLINK_BASELINE_SAMPLES) {
+    updateBlinkBaseline(ear, state);
     return;
   }
-  if (ratio < BLINK_THRESHOLD_LIMITS.low || ratio > BLINK_THRESHOLD_LIMITS.high) {
+  const { config } = state;
+  const closedEar = baseline * config.blinkClosedRatio;
+  const openEar = baseline * config.blinkOpenRatio;
+  const elapsed = blinkState.startedAt === null ? 0 : timestampMs - blinkState.startedAt;
+  switch (blinkState.phase) {
+    case 'open':
+      if (ear < openEar) {
+        blinkState.startedAt = timestampMs;
+        blinkState.phase = ear < closedEar ? 'closed' : 'closing';
+      } else {
+        updateBlinkBaseline(ear, state);
+      }
+      return;
+    case 'closing':
+      if (ear < closedEar) {
+        blinkState.phase = 'closed';
+      } else if (ear >= openEar || elapsed > config.blinkMaxDurationMs) {
+        // 没有真正闭眼，或缓慢眯眼过久
+        blinkState.phase = 'open';
+        blinkState.startedAt = null;
+      }
+      return;
+    case 'closed':
+      if (ear >= closedEar) {
+        blinkState.phase = 'opening';
+      }
+      return;
+    case 'opening':
+      if (ear < closedEar) {
+        blinkState.phase = 'closed';
+      } else if (ear >= openEar) {
+        if (elapsed >= config.blinkMinDurationMs && elapsed <= config.blinkMaxDurationMs) {
+          blinkState.count += 1;
+        } else {
+          blinkState.rejectedCount += 1;
+        }
+        blinkState.lastDurationMs = elapsed;
+        blinkState.phase = 'open';
+        blinkState.startedAt = null;
+      }
+      return;
+    default:
+      return;
+  }
+}
+
+function updateBlinkBaseline(ear: number, state: LivenessComputationState) {
+  if (ear < state.config.blinkBaselineMin || ear > state.config.blinkBaselineMax) {
     return;
   }
-  const currentWeight = BLINK_AVG_WEIGHTS.current;
-  const previousWeight = BLINK_AVG_WEIGHTS.previous;
-  blinkState.eyeAvg = ratio * currentWeight + (blinkState.eyeAvg as number) * previousWeight;
+  const blinkState = state.blink;
+  blinkState.baselineEar =
+    blinkState.baselineEar === null
+      ? ear
+      : ear * BLINK_BASELINE_WEIGHTS.current + blinkState.baselineEar * BLINK_BASELINE_WEIGHTS.previous;
+  blinkState.baselineSamples += 1;
+}
+
+function getBlinkTrackingMetrics(state: LivenessComputationState): BlinkTrackingMetrics {
+  const { phase, count, rejectedCount, baselineEar, lastDurationMs } = state.blink;
+  return { phase, count, rejectedCount, baselineEar, lastDurationMs };
 }
 
 function resetBlinkDetections(state: LivenessComputationState, options: { resetAverage?: boolean } = {}) {
-  state.blink.closedDetected = false;
-  state.blink.openDetected = false;
-  if (options.resetAverage) {
-    state.blink.eyeAvg = INITIAL_BLINK_AVG;
+  const { baselineEar, baselineSamples } = state.blink;
+  state.blink = createBlinkState();
+  if (!options.resetAverage) {
+    state.blink.baselineEar = baselineEar;
+    state.blink.baselineSamples = baselineSamples;
   }
 }
 
@@ -1058,7 +2464,7 @@ function updateMouthState(ratio: number | null, state: LivenessComputationState)
   if (typeof ratio !== 'number' || !Number.isFinite(ratio)) {
     return;
   }
-  if (ratio > LIVENESS_CONFIG.mouthThreshold) {
+  if (ratio > state.config.mouthThreshold) {
     state.mouth.openDetected = true;
   } else {
     state.mouth.closedDetected = true;
@@ -1070,204 +2476,1108 @@ function resetMouthState(state: LivenessComputationState) {
   state.mouth.closedDetected = false;
 }
 
+// 只计算本帧的比例与姿态并读取现有状态，不推进幅度跟踪与眨眼/张嘴状态机
+function readActionMetrics(
+  state: LivenessComputationState,
+  detection: DetectionWithLandmarks,
+): LivenessActionMetrics {
+  const poseDegrees = toPoseDegrees(detection.pose);
+  return {
+    nodRatio: computeNodRatio(detection),
+    nodSpread: getSpread(state.nodRange),
+    shakeRatio: computeShakeRatio(detection),
+    shakeSpread: getSpread(state.shakeRange),
+    blink: computeBlinkRatios(detection),
+    blinkTracking: getBlinkTrackingMetrics(state),
+    mouthRatio: computeMouthRatio(detection),
+    pose: detection.pose,
+    poseDegrees,
+    frontalScore: poseDegrees ? computePoseScore(poseDegrees, state.config.poseScoreSigma) : null,
+  };
+}
+
+// 由滤波后的人脸计算动作指标，并更新点头/摇头幅度、眨眼与张嘴状态；实时推理与轨迹回放共用
+function updateActionMetrics(
+  state: LivenessComputationState,
+  detection: DetectionWithLandmarks,
+  timestampMs: number,
+): LivenessActionMetrics {
+  const current = readActionMetrics(state, detection);
+  updateRangeState(state.nodRange, current.nodRatio);
+  updateRangeState(state.shakeRange, current.shakeRatio);
+  updateBlinkState(current.blink, state, timestampMs);
+  updateMouthState(current.mouthRatio, state);
+  return {
+    ...current,
+    nodSpread: getSpread(state.nodRange),
+    shakeSpread: getSpread(state.shakeRange),
+    blinkTracking: getBlinkTrackingMetrics(state),
+  };
+}
+
+function startComputationSession(stages: LivenessStageDefinition[], config: Readonly<LivenessConfig>) {
+  const state = createLivenessComputationState(stages, config);
+  state.active = true;
+  stages.forEach((stage) => {
+    state.stageStates[stage.key] = stage.createState?.();
+  });
+  return state;
+}
+
+interface StageEvaluation {
+  /** 全部动作已完成，会话结果由调用方决定 */
+  finished: boolean;
+  justCompletedStage?: LivenessStageDefinition;
+  justCompletedIndex?: number;
+}
+
+// 对当前动作执行 update/check，完成后推进到下一个动作
+function evaluateStageState(
+  state: LivenessComputationState,
+  metrics: LivenessMetrics,
+  detection: DetectionWithLandmarks,
+): StageEvaluation {
+  const stage = state.plan[state.stageIndex];
+  if (!stage) {
+    return { finished: true };
+  }
+  const stageState = state.stageStates[stage.key];
+  stage.update?.(metrics, stageState, detection);
+  const completed = stage.check(metrics, state, stageState);
+  if (!completed) {
+    return { finished: false };
+  }
+  const completedIndex = state.stageIndex;
+  state.stageIndex += 1;
+  state.progress = state.stageIndex / state.plan.length;
+  stage.reset?.(state, stageState);
+  return {
+    finished: state.stageIndex >= state.plan.length,
+    justCompletedStage: stage,
+    justCompletedIndex: completedIndex,
+  };
+}
+
+function pointDistance(a?: { x: number; y: number }, b?: { x: number; y: number }) {
+  if (!a || !b) return null;
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// 对姿态不太敏感的脸部几何比例（以双眼间距归一化）：眼-嘴距离、嘴宽、鼻长、脸宽
+function computeGeometrySignature(det: DetectionWithLandmarks) {
+  const lm = det.landmarks;
+  if (!lm || lm.length < 98) return null;
+  const iod = pointDistance(lm[96], lm[97]);
+  if (!iod) return null;
+  const eyeMid = { x: (lm[96].x + lm[97].x) / 2, y: (lm[96].y + lm[97].y) / 2 };
+  const mouthMid = { x: (lm[76].x + lm[82].x) / 2, y: (lm[76].y + lm[82].y) / 2 };
+  const distances = [
+    pointDistance(eyeMid, mouthMid),
+    pointDistance(lm[76], lm[82]),
+    pointDistance(lm[51], lm[54]),
+    pointDistance(lm[0], lm[32]),
+  ];
+  if (distances.some((value) => value === null)) return null;
+  return distances.map((value) => (value as number) / iod);
+}
+
+function computeGeometryDeviation(signature: number[], reference: number[]) {
+  let sum = 0;
+  for (let i = 0; i < signature.length; i += 1) {
+    sum += Math.abs(signature[i] - reference[i]) / Math.max(1e-6, Math.abs(reference[i]));
+  }
+  return sum / signature.length;
+}
+
+function markIdentityMissed(track: IdentityTrackState) {
+  track.missedFrames += 1;
+}
+
+function updateIdentityTrack(
+  track: IdentityTrackState,
+  detection: DetectionWithLandmarks,
+  poseDegrees: Pose | null,
+  mouthOpen: boolean,
+) {
+  const box = detection.bbox;
+  let iou: number | null = null;
+  let motion: number | null = null;
+  let reacquired = track.missedFrames > IDENTITY_TRACKING.lostFrameLimit;
+  if (track.lastBox) {
+    iou = computeIou(track.lastBox, box);
+    const prevSize = Math.max(1, track.lastBox[2] - track.lastBox[0], track.lastBox[3] - track.lastBox[1]);
+    const dx = (box[0] + box[2]) / 2 - (track.lastBox[0] + track.lastBox[2]) / 2;
+    const dy = (box[1] + box[3]) / 2 - (track.lastBox[1] + track.lastBox[3]) / 2;
+    motion = Math.hypot(dx, dy) / prevSize;
+    if (iou < IDENTITY_TRACKING.minIou && motion > IDENTITY_TRACKING.maxMotion) {
+      reacquired = true;
+    }
+  }
+  track.lastBox = [box[0], box[1], box[2], box[3]];
+  track.missedFrames = 0;
+
+  if (reacquired) {
+    if (track.reference) {
+      track.pendingVerification = true;
+    } else {
+      track.referenceSum = null;
+      track.referenceCount = 0;
+    }
+  }
+
+  const frontal =
+    !poseDegrees ||
+    (Math.abs(poseDegrees.yaw) <= IDENTITY_TRACKING.frontalMaxDegrees &&
+      Math.abs(poseDegrees.pitch) <= IDENTITY_TRACKING.frontalMaxDegrees);
+  const signature = frontal && !mouthOpen ? computeGeometrySignature(detection) : null;
+  let geometryDeviation: number | null = null;
+  let changed = false;
+  if (signature) {
+    if (!track.reference) {
+      track.referenceSum = track.referenceSum
+        ? track.referenceSum.map((value, index) => value + signature[index])
+        : signature.slice();
+      track.referenceCount += 1;
+      if (track.referenceCount >= IDENTITY_TRACKING.referenceSamples) {
+        track.reference = track.referenceSum.map((value) => value / track.referenceCount);
+      }
+    } else {
+      geometryDeviation = computeGeometryDeviation(signature, track.reference);
+      if (geometryDeviation > IDENTITY_TRACKING.geometryTolerance) {
+        track.mismatchFrames += 1;
+        changed = track.mismatchFrames >= IDENTITY_TRACKING.mismatchFrames;
+      } else {
+        track.mismatchFrames = 0;
+        track.pendingVerification = false;
+      }
+    }
+  }
+  const metrics: IdentityTrackMetrics = {
+    iou,
+    motion,
+    geometryDeviation,
+    reacquired,
+    verified: !track.pendingVerification,
+  };
+  return { metrics, changed };
+}
+
 export interface StageStatus {
   total: number;
   stageIndex: number;
   currentStage: LivenessStageDefinition | null;
   completed: boolean;
+  failed: boolean;
+  failureReason?: LivenessFailureReason;
   justCompletedStage?: LivenessStageDefinition;
   justCompletedIndex?: number;
 }
 
+export interface FrameTiming {
+  /** 帧的采集时间（毫秒，与 performance.now() 同一时间轴），驱动眨眼时长、滤波与帧率统计 */
+  timestampMs: number;
+  /** 媒体时间线上的呈现时间（秒） */
+  mediaTime?: number;
+  /** 视频帧序号，用于识别重复帧 */
+  frameNumber?: number;
+}
+
 export interface ProcessFrameResult {
   detection: DetectionWithLandmarks | null;
   metrics: LivenessMetrics | null;
   stage: StageStatus;
   multiFaceDetected?: boolean;
+  /** 滤波前的检测结果；detection 为滤波后的值 */
+  rawDetection?: DetectionWithLandmarks | null;
+  /** 处理该帧时生效的配置，供审计 */
+  config: Readonly<LivenessConfig>;
+  /** 该帧 SCRFD 的输入边长 */
+  detectorResolution: number;
+  /** 当前预处理路径与平均耗时 */
+  preprocessing: PreprocessingDiagnostics;
+  /** 该帧的时间信息；调用方未传入时以进入 processFrame 的时刻为准 */
+  frame: FrameTiming;
+}
+
+// 动作判定的全部输入：滤波后的人脸框、98 点关键点与姿态；各比例是同一帧的派生值，便于直接画曲线
+export interface LivenessTraceFrame {
+  timestampMs: number;
+  /** 未检测到人脸或检测到多张人脸的帧为 null */
+  bbox: [number, number, number, number] | null;
+  /** 98 点关键点，按 x0, y0, x1, y1… 展平 */
+  landmarks: number[] | null;
+  /** 弧度 */
+  pose: Pose | null;
+  nodRatio: number | null;
+  shakeRatio: number | null;
+  leftEar: number | null;
+  rightEar: number | null;
+  mouthRatio: number | null;
+  multiFace?: boolean;
+  /** 本帧没有推进动作的原因：重新捕获人脸后尚未通过身份校验，或五官被遮挡 */
+  hold?: 'identity' | 'occlusion';
+  /** 本帧因中途换人结束会话 */
+  failureReason?: LivenessFailureReason;
+  /** 会话中途调用 updateConfig 后，从本帧起生效的完整配置 */
+  config?: Readonly<LivenessConfig>;
+}
+
+export interface LivenessTrace {
+  version: 1;
+  challengePlan: ChallengePlan;
+  /** 会话开始时生效的配置，之后的修改记录在对应帧的 config 上 */
+  config: Readonly<LivenessConfig>;
+  frames: LivenessTraceFrame[];
+}
+
+export interface TraceReplayOptions {
+  /** 覆盖轨迹中记录的配置，用于评估新阈值 */
+  config?: Partial<LivenessConfig>;
+  /** 覆盖轨迹中记录的动作序列 */
+  challengePlan?: ChallengePlan;
+}
+
+export interface TraceReplayFrame {
+  timestampMs: number;
+  stageIndex: number;
+  /** 无人脸的帧为 null */
+  metrics: LivenessActionMetrics | null;
+}
+
+export interface TraceReplayResult {
+  /** 回放开始时生效的配置 */
+  config: Readonly<LivenessConfig>;
+  challengePlan: ChallengePlan;
+  completed: boolean;
+  failed: boolean;
+  failureReason: LivenessFailureReason | null;
+  /** 回放结束时停留的动作序号，全部完成时等于动作数 */
+  stageIndex: number;
+  /** 各动作完成时所在帧的时间戳，可据此按组件的超时规则判定 */
+  completions: Array<{ key: LivenessStageKey; index: number; timestampMs: number }>;
+  frames: TraceReplayFrame[];
 }
 
-interface LivenessEngineOptions {
+function toTraceDetection(frame: LivenessTraceFrame): DetectionWithLandmarks | null {
+  if (!frame.bbox || !frame.landmarks) return null;
+  const landmarks: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i + 1 < frame.landmarks.length; i += 2) {
+    landmarks.push({ x: frame.landmarks[i], y: frame.landmarks[i + 1] });
+  }
+  if (landmarks.length < 98) {
+    throw new Error(`轨迹帧关键点数量不足: ${landmarks.length}`);
+  }
+  return {
+    bbox: frame.bbox,
+    score: 1,
+    kps: WFLW_FIVE_POINT_INDICES.map((index) => landmarks[index]),
+    landmarks,
+    pose: frame.pose,
+  };
+}
+
+// 不加载模型，用记录的关键点与姿态重新执行幅度跟踪、眨眼/张嘴状态机与动作判定。
+// 静默活体、屏幕翻拍等依赖模型输出的会话失败不在回放范围内；动作超时由调用方根据 completions 判断
+export function replayLivenessTrace(trace: LivenessTrace, options: TraceReplayOptions = {}): TraceReplayResult {
+  if (trace.version !== 1) {
+    throw new Error(`不支持的轨迹版本: ${String(trace.version)}`);
+  }
+  const config = resolveLivenessConfig({ ...trace.config, ...options.config });
+  const { plan, stages } = resolveChallengePlan(options.challengePlan ?? trace.challengePlan);
+  const state = startComputationSession(stages, config);
+  const completions: TraceReplayResult['completions'] = [];
+  const frames: TraceReplayFrame[] = [];
+  for (const frame of trace.frames) {
+    if (!state.active) break;
+    // 会话中途修改的配置从记录帧起生效，options.config 仍覆盖在其上
+    if (frame.config) {
+      state.config = resolveLivenessConfig({ ...frame.config, ...options.config });
+    }
+    const detection = toTraceDetection(frame);
+    if (!detection) {
+      state.lastMetrics = null;
+      frames.push({ timestampMs: frame.timestampMs, stageIndex: state.stageIndex, metrics: null });
+      continue;
+    }
+    // 与实时流程相同：暂停推进或结束会话的帧不更新动作状态
+    const actions = frame.hold || frame.failureReason
+      ? readActionMetrics(state, detection)
+      : updateActionMetrics(state, detection, frame.timestampMs);
+    frames.push({ timestampMs: frame.timestampMs, stageIndex: state.stageIndex, metrics: actions });
+    const metrics: LivenessMetrics = {
+      ...actions,
+      spoofProbability: null,
+      sessionSpoofProbability: null,
+      screenReplay: null,
+      sessionScreenReplayScore: null,
+      identity: null,
+      tracking: null,
+      occlusion: null,
+      raw: null,
+    };
+    state.lastMetrics = metrics;
+    if (frame.failureReason) {
+      state.failed = true;
+      state.failureReason = frame.failureReason;
+      state.active = false;
+      break;
+    }
+    if (frame.hold) continue;
+    const evaluation = evaluateStageState(state, metrics, detection);
+    if (evaluation.justCompletedStage && typeof evaluation.justCompletedIndex === 'number') {
+      completions.push({
+        key: evaluation.justCompletedStage.key,
+        index: evaluation.justCompletedIndex,
+        timestampMs: frame.timestampMs,
+      });
+    }
+    if (evaluation.finished) {
+      state.completed = true;
+      state.active = false;
+    }
+  }
+  return {
+    config,
+    challengePlan: plan,
+    completed: state.completed,
+    failed: state.failed,
+    failureReason: state.failureReason,
+    stageIndex: state.stageIndex,
+    completions,
+    frames,
+  };
+}
+
+export interface LivenessEngineOptions {
+  /** 动作阈值等灵敏度配置，未设置的字段取 DEFAULT_LIVENESS_CONFIG */
+  config?: Partial<LivenessConfig>;
   detectorModelUrl?: string;
   landmarkModelUrl?: string;
   detectionThreshold?: number;
+  /** 注册自定义动作的模块地址；Worker 中需要重新 import 这些模块才能拿到动作定义 */
+  stageModuleUrls?: string[];
+  /** 可选的 MiniFASNet 类静默活体模型，未配置时不做分类 */
+  antiSpoofModelUrl?: string;
+  antiSpoofThreshold?: number;
+  antiSpoofSampleInterval?: number;
+  /** 设置后会话平均翻拍分数超过该值即判定失败；不设置则只上报分数 */
+  screenReplayThreshold?: number;
+  screenReplaySampleInterval?: number;
+  /** 可选的 ArcFace 类人脸特征模型，配置后才能调用 computeEmbedding */
+  embeddingModelUrl?: string;
+  /** 关键点/姿态/人脸框的时域滤波参数，默认全部开启 */
+  smoothing?: SmoothingOptions;
+  /** 模型字节缓存（Cache Storage，不可用时退回 IndexedDB），默认开启；false 时每次重新下载 */
+  modelCache?: boolean | ModelStoreOptions;
+  /** 各模型期望的 SHA-256 与缓存版本，校验失败的模型会被拒绝加载；内置检测模型默认带有摘要 */
+  modelIntegrity?: Partial<Record<ModelName, ModelIntegrity>>;
+  /** 按顺序尝试的推理后端，默认 webgpu → webgl → wasm（部分机型会去掉 webgpu） */
+  executionProviders?: ExecutionProvider[];
+  /** 禁用的推理后端，从上述列表中剔除 */
+  blockedExecutionProviders?: ExecutionProvider[];
+  /** 跨帧人脸连续性校验，默认开启；中途换人时会话以 IDENTITY_CHANGED 失败 */
+  identityTracking?: boolean;
+  /** 按算法帧率和人脸大小切换 SCRFD 输入尺寸，默认关闭；需要导出为动态输入尺寸的检测模型，内置模型为固定 640×640 输入 */
+  adaptiveResolution?: boolean | AdaptiveResolutionOptions;
+  /** 由上一帧关键点推出人脸框以跳过大部分帧的 SCRFD 检测，默认开启 */
+  landmarkTracking?: boolean | LandmarkTrackingOptions;
+  /** 检测与关键点输入的预处理路径，默认 gpu（WebGL2 着色器），不可用时自动退回 cpu */
+  preprocessing?: PreprocessingMode;
+  /** 眼、鼻、嘴遮挡检测，默认开启；判定遮挡时不推进动作阶段 */
+  occlusionCheck?: boolean;
+  /** 平滑后遮挡分数超过该值即判定该区域被遮挡 */
+  occlusionThreshold?: number;
+  occlusionSampleInterval?: number;
+  /** 逐帧记录动作判定的输入轨迹，会话结束后由 getTrace 导出、replayLivenessTrace 回放，默认关闭 */
+  traceRecording?: boolean;
 }
 
 export class LivenessEngine {
-  private detector = new SCRFDDetector();
-  private landmarkEstimator = new LandmarkEstimator();
-  private state: LivenessComputationState = createLivenessComputationState();
+  private preprocessor = new FramePreprocessor();
+  private detector = new SCRFDDetector(this.preprocessor);
+  private landmarkEstimator = new LandmarkEstimator(this.preprocessor);
+  private config: Readonly<LivenessConfig>;
+  private state: LivenessComputationState;
+  private challengePlan: ChallengePlan = normalizeChallengePlan();
   private detectorModelSources: string[];
   private landmarkModelSources: string[];
+  private antiSpoofClassifier: AntiSpoofClassifier | null = null;
+  private antiSpoofModelSources: string[] = [];
+  private antiSpoofThreshold: number;
+  private antiSpoofSampleInterval: number;
+  private faceEmbedder: FaceEmbedder | null = null;
+  private embeddingModelSources: string[] = [];
+  private screenReplaySampler = new ScreenReplaySampler();
+  private occlusionSampler: OcclusionSampler | null;
+  private smoother: DetectionSmoother;
+  private modelStore: ModelStore;
+  private modelIntegrity: Partial<Record<ModelName, ModelIntegrity>>;
+  private modelLoadReports: Partial<Record<ModelName, ModelLoadReport>> = {};
+  private executionProviders: ExecutionProvider[];
+  private modelDiagnostics: Partial<Record<ModelName, ModelDiagnostics>> = {};
+  private screenReplayThreshold: number | null;
+  private screenReplaySampleInterval: number;
+  private occlusionThreshold: number;
+  private occlusionSampleInterval: number;
+  private identityTracking: boolean;
+  private resolutionController: AdaptiveResolutionController | null;
+  private tracker: LandmarkTracker | null;
+  private detectorResolution = DETECTOR_BASE_RESOLUTION;
   private detectionThreshold: number;
   private modelsLoaded = false;
+  private traceRecording: boolean;
+  private trace: LivenessTrace | null = null;
+  /** 会话中途修改过配置，下一条轨迹帧需记录新配置 */
+  private traceConfigChanged = false;
 
   constructor(options: LivenessEngineOptions = {}) {
+    this.config = resolveLivenessConfig(options.config);
+    this.state = createLivenessComputationState(LIVENESS_STAGES, this.config);
+    this.detector.setNmsThreshold(this.config.nmsThreshold);
     const detectorUrl = options.detectorModelUrl ?? DEFAULT_MODEL_URL;
     const landmarkUrl = options.landmarkModelUrl ?? DEFAULT_LANDMARK_MODEL_URL;
     this.detectorModelSources = buildModelSourceCandidates(detectorUrl, SCRFD_RELATIVE_PATH);
     this.landmarkModelSources = buildModelSourceCandidates(landmarkUrl, PFPLD_RELATIVE_PATH);
     this.detectionThreshold = options.detectionThreshold ?? 0.5;
+    if (options.antiSpoofModelUrl) {
+      this.antiSpoofClassifier = new AntiSpoofClassifier();
+      this.antiSpoofModelSources = buildModelSourceCandidates(options.antiSpoofModelUrl, ANTI_SPOOF_RELATIVE_PATH);
+    }
+    if (options.embeddingModelUrl) {
+      this.faceEmbedder = new FaceEmbedder();
+      this.embeddingModelSources = buildModelSourceCandidates(options.embeddingModelUrl, EMBEDDING_RELATIVE_PATH);
+    }
+    this.antiSpoofThreshold = options.antiSpoofThreshold ?? DEFAULT_ANTI_SPOOF_THRESHOLD;
+    this.antiSpoofSampleInterval = Math.max(1, Math.round(options.antiSpoofSampleInterval ?? DEFAULT_ANTI_SPOOF_SAMPLE_INTERVAL));
+    this.screenReplayThreshold = options.screenReplayThreshold ?? null;
+    this.identityTracking = options.identityTracking ?? true;
+    this.traceRecording = options.traceRecording ?? false;
+    this.occlusionSampler = options.occlusionCheck === false ? null : new OcclusionSampler();
+    this.occlusionThreshold = options.occlusionThreshold ?? DEFAULT_OCCLUSION_THRESHOLD;
+    this.occlusionSampleInterval = Math.max(
+      1,
+      Math.round(options.occlusionSampleInterval ?? DEFAULT_OCCLUSION_SAMPLE_INTERVAL),
+    );
+    this.smoother = new DetectionSmoother(options.smoothing);
+    this.preprocessor.setMode(options.preprocessing ?? 'gpu');
+    const adaptiveResolution = options.adaptiveResolution ?? false;
+    this.resolutionController = adaptiveResolution === false
+      ? null
+      : new AdaptiveResolutionController(adaptiveResolution === true ? {} : adaptiveResolution);
+    const landmarkTracking = options.landmarkTracking ?? true;
+    this.tracker = landmarkTracking === false
+      ? null
+      : new LandmarkTracker(landmarkTracking === true ? {} : landmarkTracking);
+    const modelCache = options.modelCache ?? true;
+    this.modelStore = new ModelStore(
+      modelCache === false ? { backend: 'none' } : modelCache === true ? {} : modelCache,
+    );
+    this.modelIntegrity = {
+      ...(options.detectorModelUrl ? {} : { detector: { sha256: DEFAULT_MODEL_SHA256 } }),
+      ...options.modelIntegrity,
+    };
+    this.screenReplaySampleInterval = Math.max(
+      1,
+      Math.round(options.screenReplaySampleInterval ?? DEFAULT_SCREEN_REPLAY_SAMPLE_INTERVAL),
+    );
+    const blocked = new Set(options.blockedExecutionProviders ?? []);
+    this.executionProviders = Array.from(new Set(options.executionProviders ?? getDefaultExecutionProviders())).filter(
+      (provider) => !blocked.has(provider),
+    );
+    if (!this.executionProviders.length) {
+      throw new Error('没有可用的推理后端，请检查 executionProviders / blockedExecutionProviders');
+    }
     configureOrtEnv();
-    applyDeviceBackendOverrides();
     if (isSafari()) {
-      forceScalarWasmBackend();
+      forceScalarWasmBackend('safari');
     }
   }
 
-  async warmup() {
+  // 依次下载、编译各模型，并在空白画面上跑一次推理让后端完成首次初始化
+  async warmup(onProgress?: ModelLoadProgressListener) {
     if (this.modelsLoaded) return;
-    await this.detector.loadModel(this.detectorModelSources);
-    await this.landmarkEstimator.loadModel(this.landmarkModelSources);
+    const models = this.getModelLoadPlan();
+    for (let index = 0; index < models.length; index += 1) {
+      const model = models[index];
+      const report = (phase: ModelLoadPhase, loaded: number, total: number | null) => {
+        if (!onProgress) return;
+        const { start, span } = MODEL_PHASE_SPANS[phase];
+        const fraction = total ? Math.min(1, loaded / total) : 0;
+        onProgress({
+          model: model.name,
+          phase,
+          loaded,
+          total,
+          progress: (index + start + span * fraction) / models.length,
+        });
+      };
+      const downloadStart = performance.now();
+      const buffer = await this.loadModelBytes(model.name, model.sources, (loaded, total) =>
+        report('download', loaded, total),
+      );
+      const compileStart = performance.now();
+      report('compile', 0, null);
+      let provider: ExecutionProvider = this.executionProviders[0];
+      let failedProviders: ProviderAttempt[] = [];
+      await model.loader.loadModel(buffer, {
+        providers: this.executionProviders,
+        onResolved: (resolved, attempts) => {
+          provider = resolved;
+          failedProviders = attempts;
+        },
+      });
+      const compileEnd = performance.now();
+      let warmupMs: number | null = null;
+      if (model.warmupInference) {
+        report('warmup', 0, null);
+        await model.warmupInference();
+        warmupMs = performance.now() - compileEnd;
+      }
+      this.modelDiagnostics[model.name] = {
+        provider,
+        failedProviders,
+        cacheHit: this.modelLoadReports[model.name]?.cacheHit ?? false,
+        downloadMs: Math.round(compileStart - downloadStart),
+        compileMs: Math.round(compileEnd - compileStart),
+        warmupMs: warmupMs === null ? null : Math.round(warmupMs),
+      };
+    }
+    onProgress?.({ model: models[models.length - 1].name, phase: 'warmup', loaded: 1, total: 1, progress: 1 });
     this.modelsLoaded = true;
   }
 
+  private getModelLoadPlan() {
+    const models: Array<{
+      name: ModelName;
+      sources: string[];
+      loader: { loadModel: (source: ModelSource, sessionOptions?: OrtSessionOptions) => Promise<void> };
+      warmupInference?: () => Promise<unknown>;
+    }> = [
+      {
+        name: 'detector',
+        sources: this.detectorModelSources,
+        loader: this.detector,
+        warmupInference: () => this.detector.detectFromElement(createWarmupCanvas(), this.detectionThreshold),
+      },
+      {
+        name: 'landmark',
+        sources: this.landmarkModelSources,
+        loader: this.landmarkEstimator,
+        warmupInference: () => this.landmarkEstimator.estimate(createWarmupCanvas(), [0, 0, 112, 112]),
+      },
+    ];
+    const { antiSpoofClassifier, faceEmbedder } = this;
+    if (antiSpoofClassifier) {
+      models.push({
+        name: 'antiSpoof',
+        sources: this.antiSpoofModelSources,
+        loader: antiSpoofClassifier,
+        warmupInference: () => antiSpoofClassifier.classify(createWarmupCanvas(), [0, 0, 112, 112]),
+      });
+    }
+    if (faceEmbedder) {
+      // 以模板关键点本身作为输入，对齐变换为恒等变换
+      models.push({
+        name: 'embedding',
+        sources: this.embeddingModelSources,
+        loader: faceEmbedder,
+        warmupInference: () => faceEmbedder.embed(createWarmupCanvas(), ALIGNMENT_TEMPLATES.arcface.points),
+      });
+    }
+    return models;
+  }
+
+  getModelLoadReports() {
+    return { ...this.modelLoadReports };
+  }
+
+  getBackendDiagnostics(): BackendDiagnostics {
+    const wasmEnv = ort.env?.wasm;
+    const wasmSimdSupported = isWasmSimdSupported();
+    const wasmThreadsSupported = isWasmThreadsSupported();
+    return {
+      requestedProviders: this.executionProviders.slice(),
+      wasmSimdSupported,
+      wasmSimdEnabled: wasmSimdSupported && wasmEnv?.simd !== false,
+      wasmThreadsSupported,
+      wasmNumThreads: wasmThreadsSupported ? wasmEnv?.numThreads ?? 0 : 1,
+      scalarWasmReason,
+      models: { ...this.modelDiagnostics },
+      detectorResolution: this.getDetectorResolutionDiagnostics(),
+      preprocessing: this.preprocessor.getDiagnostics(),
+    };
+  }
+
+  // 固定输入尺寸的模型只有一个档位
+  private getDetectorResolutionDiagnostics(): DetectorResolutionDiagnostics {
+    const dynamicInput = this.detector.supportsDynamicInput();
+    if (!dynamicInput || !this.resolutionController) {
+      const size = dynamicInput ? this.detectorResolution : this.detector.getInputSize();
+      return { dynamicInput, adaptive: false, candidates: [size], current: size };
+    }
+    return {
+      dynamicInput,
+      adaptive: true,
+      candidates: this.resolutionController.candidates,
+      current: this.detectorResolution,
+    };
+  }
+
+  private async loadModelBytes(name: ModelName, sources: string[], onProgress?: DownloadProgressListener) {
+    const integrity = this.modelIntegrity[name];
+    const { buffer, report } = await this.modelStore.load({
+      name,
+      version: integrity?.version ?? integrity?.sha256 ?? sources[0],
+      sha256: integrity?.sha256,
+      fetch: () => loadModelBuffer(sources, onProgress),
+    });
+    this.modelLoadReports[name] = report;
+    onProgress?.(buffer.byteLength, buffer.byteLength);
+    return buffer;
+  }
+
   async detectImage(element: InputElement): Promise<{ detections: FaceDetectionResult[]; primary: FaceDetectionResult | null }> {
     await this.warmup();
     const detections = await this.detector.detectFromElement(element, this.detectionThreshold);
     return { detections, primary: detections[0] ?? null };
   }
 
+  // 未传入检测结果时复用 detectImage 取主脸；没有 5 点关键点时返回 null
+  async computeEmbedding(element: InputElement, detection?: Detection | null) {
+    if (!this.faceEmbedder) {
+      throw new Error('未配置人脸特征模型 embeddingModelUrl');
+    }
+    const face = detection ?? (await this.detectImage(element)).primary;
+    await this.warmup();
+    if (!face?.kps || face.kps.length < 5) return null;
+    return this.faceEmbedder.embed(element, face.kps.slice(0, 5));
+  }
+
   async estimateLandmarks(element: InputElement, bbox: [number, number, number, number]) {
     await this.warmup();
     return this.landmarkEstimator.estimate(element, bbox);
   }
 
-  startSession() {
-    this.state = createLivenessComputationState();
-    this.state.active = true;
+  startSession(plan?: ChallengePlan) {
+    const resolved = resolveChallengePlan(plan ?? { stages: LIVENESS_STAGES.map((stage) => stage.key) });
+    this.challengePlan = resolved.plan;
+    this.state = startComputationSession(resolved.stages, this.config);
+    this.trace = this.traceRecording
+      ? { version: 1, challengePlan: this.getChallengePlan(), config: this.config, frames: [] }
+      : null;
+    this.traceConfigChanged = false;
     resetBlinkDetections(this.state, { resetAverage: true });
     resetMouthState(this.state);
     resetRange(this.state.nodRange);
     resetRange(this.state.shakeRange);
+    this.smoother.reset();
+    this.resolutionController?.reset();
+    this.tracker?.reset();
   }
 
   stopSession() {
     this.state.active = false;
   }
 
+  dispose() {
+    this.stopSession();
+    this.preprocessor.dispose();
+  }
+
   isReady() {
-    return this.modelsLoaded && this.detector.isReady() && this.landmarkEstimator.isReady();
+    return (
+      this.modelsLoaded &&
+      this.detector.isReady() &&
+      this.landmarkEstimator.isReady() &&
+      (!this.antiSpoofClassifier || this.antiSpoofClassifier.isReady()) &&
+      (!this.faceEmbedder || this.faceEmbedder.isReady())
+    );
   }
 
   getCurrentStage() {
-    return LIVENESS_STAGES[this.state.stageIndex] ?? null;
+    return this.state.plan[this.state.stageIndex] ?? null;
   }
 
-  async processFrame(element: InputElement): Promise<ProcessFrameResult> {
-    if (!this.state.active) {
-      return {
-        detection: null,
-        metrics: null,
-        stage: this.buildStageStatus(),
-      };
+  getChallengePlan(): ChallengePlan {
+    return { ...this.challengePlan, stages: this.challengePlan.stages.slice() };
+  }
+
+  getConfig() {
+    return this.config;
+  }
+
+  // 最近一次会话的轨迹副本，可直接 JSON.stringify 导出；未开启 traceRecording 时为 null
+  async getTrace(): Promise<LivenessTrace | null> {
+    if (!this.trace) return null;
+    return { ...this.trace, frames: this.trace.frames.slice() };
+  }
+
+  // 运行中调整灵敏度：在当前配置基础上合并并重新校验，下一帧生效
+  updateConfig(overrides: Partial<LivenessConfig>) {
+    this.config = resolveLivenessConfig({ ...this.config, ...overrides });
+    this.state.config = this.config;
+    this.detector.setNmsThreshold(this.config.nmsThreshold);
+    this.traceConfigChanged = Boolean(this.trace);
+    return this.config;
+  }
+
+  // 切换预处理路径，便于在同一设备上对比两者的耗时
+  setPreprocessing(mode: PreprocessingMode) {
+    this.preprocessor.setMode(mode);
+  }
+
+  async processFrame(element: InputElement, timing?: FrameTiming): Promise<ProcessFrameResult> {
+    const frame: FrameTiming = timing ?? { timestampMs: performance.now() };
+    this.preprocessor.beginFrame();
+    const result = await this.analyzeFrame(element, frame.timestampMs);
+    this.preprocessor.endFrame();
+    return {
+      ...result,
+      config: this.config,
+      detectorResolution: this.detectorResolution,
+      preprocessing: this.preprocessor.getDiagnostics(),
+      frame,
+    };
+  }
+
+  // 按当前档位检测，并用本帧的耗时与人脸大小决定下一帧的档位
+  private async detectFrame(element: InputElement) {
+    const dynamic = this.detector.supportsDynamicInput();
+    const resolution = dynamic && this.resolutionController
+      ? this.resolutionController.resolution
+      : this.detector.getInputSize();
+    const detections = await this.detector.detectFromElement(element, this.detectionThreshold, resolution);
+    this.detectorResolution = resolution;
+    if (dynamic && this.resolutionController) {
+      const { width, height } = getInputSize(element);
+      const primary = detections[0];
+      const longSide = Math.max(width, height);
+      const faceRatio = primary && longSide
+        ? Math.min(primary.bbox[2] - primary.bbox[0], primary.bbox[3] - primary.bbox[1]) / longSide
+        : null;
+      this.resolutionController.update(faceRatio);
     }
-    await this.warmup();
-    const detections = await this.detector.detectFromElement(element, this.detectionThreshold);
-    if (!detections.length) {
-      this.state.lastMetrics = null;
-      return {
-        detection: null,
-        metrics: null,
-        stage: this.buildStageStatus(),
-      };
+    return detections;
+  }
+
+  // 用上一帧关键点推出的人脸框直接估计关键点，跳过 SCRFD；无法跟踪时返回 null，由调用方完整检测
+  private async trackFace(element: InputElement): Promise<LocatedFace | null> {
+    const tracker = this.tracker;
+    const previous = tracker?.next();
+    if (!tracker || !previous) return null;
+    const estimate = await this.landmarkEstimator.estimate(element, previous.bbox);
+    const followed = estimate ? tracker.follow(previous, estimate.landmarks) : null;
+    if (!estimate || !followed) {
+      tracker.reset();
+      return null;
     }
-    if (detections.length > 1) {
-      this.state.lastMetrics = null;
+    return { detection: followed.detection, estimate, tracking: followed.metrics };
+  }
+
+  private recordTrace(
+    timestampMs: number,
+    detection: DetectionWithLandmarks | null,
+    metrics: LivenessMetrics | null,
+    extra: Pick<LivenessTraceFrame, 'multiFace' | 'hold' | 'failureReason'> = {},
+  ) {
+    if (!this.trace) return;
+    const frame: LivenessTraceFrame = {
+      timestampMs,
+      bbox: detection ? [...detection.bbox] : null,
+      landmarks: detection ? detection.landmarks.flatMap((point) => [point.x, point.y]) : null,
+      pose: detection?.pose ? { ...detection.pose } : null,
+      nodRatio: metrics?.nodRatio ?? null,
+      shakeRatio: metrics?.shakeRatio ?? null,
+      leftEar: metrics?.blink?.leftEar ?? null,
+      rightEar: metrics?.blink?.rightEar ?? null,
+      mouthRatio: metrics?.mouthRatio ?? null,
+    };
+    // 只写入有值的标记，保持轨迹紧凑
+    if (extra.multiFace) frame.multiFace = true;
+    if (extra.hold) frame.hold = extra.hold;
+    if (extra.failureReason) frame.failureReason = extra.failureReason;
+    if (this.traceConfigChanged) {
+      frame.config = this.config;
+      this.traceConfigChanged = false;
+    }
+    this.trace.frames.push(frame);
+  }
+
+  private handleFaceLost() {
+    this.state.lastMetrics = null;
+    markIdentityMissed(this.state.identity);
+    this.state.occlusion.scores = null;
+    this.smoother.reset();
+    this.tracker?.reset();
+  }
+
+  private async analyzeFrame(
+    element: InputElement,
+    timestamp: number,
+  ): Promise<Omit<ProcessFrameResult, 'config' | 'detectorResolution' | 'preprocessing' | 'frame'>> {
+    if (!this.state.active) {
       return {
         detection: null,
         metrics: null,
         stage: this.buildStageStatus(),
-        multiFaceDetected: true,
       };
     }
-    const primary = detections[0];
-    const estimate = await this.landmarkEstimator.estimate(element, primary.bbox);
-    if (!estimate) {
-      this.state.lastMetrics = null;
-      return {
-        detection: null,
-        metrics: null,
-        stage: this.buildStageStatus(),
+    await this.warmup();
+    this.resolutionController?.recordFrame(timestamp);
+    let located = await this.trackFace(element);
+    if (!located) {
+      const detections = await this.detectFrame(element);
+      if (!detections.length) {
+        this.handleFaceLost();
+        this.recordTrace(timestamp, null, null);
+        return {
+          detection: null,
+          metrics: null,
+          stage: this.buildStageStatus(),
+        };
+      }
+      if (detections.length > 1) {
+        this.handleFaceLost();
+        this.recordTrace(timestamp, null, null, { multiFace: true });
+        return {
+          detection: null,
+          metrics: null,
+          stage: this.buildStageStatus(),
+          multiFaceDetected: true,
+        };
+      }
+      const detected = detections[0];
+      const detectedEstimate = await this.landmarkEstimator.estimate(element, detected.bbox);
+      if (!detectedEstimate) {
+        this.handleFaceLost();
+        this.recordTrace(timestamp, null, null);
+        return {
+          detection: null,
+          metrics: null,
+          stage: this.buildStageStatus(),
+        };
+      }
+      located = {
+        detection: detected,
+        estimate: detectedEstimate,
+        tracking: this.tracker?.initialize(detected, detectedEstimate.landmarks) ?? null,
       };
     }
-    const detection: DetectionWithLandmarks = {
+    const { detection: primary, estimate, tracking } = located;
+    const rawDetection: DetectionWithLandmarks = {
       ...primary,
       landmarks: estimate.landmarks,
       pose: estimate.pose,
     };
-    const nodRatio = computeNodRatio(detection);
-    const shakeRatio = computeShakeRatio(detection);
-    updateRangeState(this.state.nodRange, nodRatio);
-    updateRangeState(this.state.shakeRange, shakeRatio);
-    const nodSpread = getSpread(this.state.nodRange);
-    const shakeSpread = getSpread(this.state.shakeRange);
-    const blinkMetrics = computeBlinkRatios(detection);
-    updateBlinkState(blinkMetrics, this.state);
-    const mouthRatio = computeMouthRatio(detection);
-    updateMouthState(mouthRatio, this.state);
-    const poseDegrees = toPoseDegrees(detection.pose);
-    const frontalScore = poseDegrees ? computePoseScore(poseDegrees) : null;
+    const detection = this.smoother.apply(rawDetection, timestamp);
+    const raw: RawLivenessMetrics = {
+      nodRatio: computeNodRatio(rawDetection),
+      shakeRatio: computeShakeRatio(rawDetection),
+      blink: computeBlinkRatios(rawDetection),
+      mouthRatio: computeMouthRatio(rawDetection),
+      poseDegrees: toPoseDegrees(rawDetection.pose),
+    };
+    const current = readActionMetrics(this.state, detection);
+    const { mouthRatio, poseDegrees } = current;
+    const spoofProbability = await this.sampleSpoofProbability(element, primary.bbox);
+    const screenReplay = this.sampleScreenReplay(element, primary.bbox);
+    const occlusion = this.sampleOcclusion(element, rawDetection.landmarks);
+    const identity = this.identityTracking
+      ? updateIdentityTrack(
+        this.state.identity,
+        detection,
+        poseDegrees,
+        typeof mouthRatio === 'number' && mouthRatio > this.config.mouthThreshold,
+      )
+      : null;
+    const hold = identity && !identity.metrics.verified ? 'identity' : occlusion?.occluded ? 'occlusion' : undefined;
+    // 尚未通过身份校验的人脸或遮挡帧的关键点不可信，不推进幅度跟踪与眨眼/张嘴状态机，
+    // 避免换人或遮挡期间的动作在放行后直接计入
+    const actions = hold || identity?.changed ? current : updateActionMetrics(this.state, detection, timestamp);
 
     const metrics: LivenessMetrics = {
-      nodRatio,
-      nodSpread,
-      shakeRatio,
-      shakeSpread,
-      blink: blinkMetrics,
-      mouthRatio,
-      pose: detection.pose,
-      poseDegrees,
-      frontalScore,
+      ...actions,
+      spoofProbability,
+      sessionSpoofProbability: this.getSessionSpoofProbability(),
+      screenReplay,
+      sessionScreenReplayScore: this.getSessionScreenReplayScore(),
+      identity: identity?.metrics ?? null,
+      tracking,
+      occlusion,
+      raw,
     };
     this.state.lastMetrics = metrics;
-    const stageStatus = this.evaluateStage(metrics);
+    this.recordTrace(timestamp, detection, metrics, identity?.changed ? { failureReason: 'IDENTITY_CHANGED' } : { hold });
+    if (identity?.changed) {
+      this.failSession('IDENTITY_CHANGED');
+      return {
+        detection,
+        rawDetection,
+        metrics,
+        stage: this.buildStageStatus(),
+      };
+    }
+    // 重新捕获到人脸但尚未通过几何校验、或五官被遮挡导致关键点不可信时，不推进动作阶段
+    if (hold) {
+      return {
+        detection,
+        rawDetection,
+        metrics,
+        stage: this.buildStageStatus(),
+      };
+    }
+    const stageStatus = this.evaluateStage(metrics, detection);
     return {
       detection,
+      rawDetection,
       metrics,
       stage: stageStatus,
     };
   }
 
-  private evaluateStage(metrics: LivenessMetrics): StageStatus {
-    const stage = LIVENESS_STAGES[this.state.stageIndex];
-    if (!stage) {
-      this.state.completed = true;
-      this.state.active = false;
-      return this.buildStageStatus();
-    }
-    const completed = stage.check(metrics, this.state);
-    if (!completed) {
-      return this.buildStageStatus();
-    }
-    const completedIndex = this.state.stageIndex;
-    this.state.stageIndex += 1;
-    this.state.progress = this.state.stageIndex / LIVENESS_STAGES.length;
-    if (stage.key === 'blink') {
-      resetBlinkDetections(this.state);
-    } else if (stage.key === 'mouth') {
-      resetMouthState(this.state);
-    } else if (stage.key === 'nod') {
-      resetRange(this.state.nodRange);
-    } else if (stage.key === 'shake') {
-      resetRange(this.state.shakeRange);
-    }
-    if (this.state.stageIndex >= LIVENESS_STAGES.length) {
-      this.state.completed = true;
-      this.state.active = false;
-    }
-    return this.buildStageStatus({
-      justCompletedStage: stage,
-      justCompletedIndex: completedIndex,
-    });
+  private async sampleSpoofProbability(element: InputElement, bbox: [number, number, number, number]) {
+    if (!this.antiSpoofClassifier) return null;
+    const antiSpoof = this.state.antiSpoof;
+    const shouldSample = this.isAwaitingEvidence() || antiSpoof.frameCounter % this.antiSpoofSampleInterval === 0;
+    antiSpoof.frameCounter += 1;
+    if (!shouldSample) return null;
+    const probability = await this.antiSpoofClassifier.classify(element, bbox);
+    if (probability === null || !Number.isFinite(probability)) return null;
+    antiSpoof.samples += 1;
+    antiSpoof.probabilitySum += probability;
+    antiSpoof.maxProbability = Math.max(antiSpoof.maxProbability ?? 0, probability);
+    return probability;
+  }
+
+  private getSessionSpoofProbability() {
+    const { samples, probabilitySum } = this.state.antiSpoof;
+    return samples ? probabilitySum / samples : null;
+  }
+
+  private sampleScreenReplay(element: InputElement, bbox: [number, number, number, number]) {
+    const screenReplay = this.state.screenReplay;
+    const shouldSample =
+      (this.screenReplayThreshold !== null && this.isAwaitingEvidence()) ||
+      screenReplay.frameCounter % this.screenReplaySampleInterval === 0;
+    screenReplay.frameCounter += 1;
+    if (!shouldSample) return null;
+    const analysis = this.screenReplaySampler.analyze(element, bbox);
+    if (!analysis) return null;
+    screenReplay.samples += 1;
+    screenReplay.scoreSum += analysis.score;
+    return analysis;
+  }
+
+  private getSessionScreenReplayScore() {
+    const { samples, scoreSum } = this.state.screenReplay;
+    return samples ? scoreSum / samples : null;
+  }
+
+  // 未采样的帧沿用上一次平滑后的分数
+  private sampleOcclusion(element: InputElement, landmarks: Array<{ x: number; y: number }>): OcclusionMetrics | null {
+    if (!this.occlusionSampler) return null;
+    const occlusion = this.state.occlusion;
+    const shouldSample = occlusion.frameCounter % this.occlusionSampleInterval === 0;
+    occlusion.frameCounter += 1;
+    const analysis = shouldSample ? this.occlusionSampler.analyze(element, landmarks, this.occlusionThreshold) : null;
+    if (analysis) {
+      const previous = occlusion.scores;
+      occlusion.scores = Object.fromEntries(
+        OCCLUSION_REGIONS.map((region) => {
+          const score = analysis.regions[region].score;
+          return [region, previous ? previous[region] + (score - previous[region]) * OCCLUSION_SMOOTHING : score];
+        }),
+      ) as Record<OcclusionRegion, number>;
+    }
+    const scores = occlusion.scores;
+    if (!scores) return null;
+    const regions = Object.fromEntries(
+      OCCLUSION_REGIONS.map((region) => [region, scores[region] > this.occlusionThreshold]),
+    ) as Record<OcclusionRegion, boolean>;
+    return {
+      scores,
+      regions,
+      occluded: OCCLUSION_REGIONS.some((region) => regions[region]),
+      analysis,
+    };
+  }
+
+  private getSessionFailureReason(): LivenessFailureReason | null {
+    const sessionSpoof = this.getSessionSpoofProbability();
+    if (
+      this.antiSpoofClassifier &&
+      this.state.antiSpoof.samples >= MIN_ANTI_SPOOF_SAMPLES &&
+      sessionSpoof !== null &&
+      sessionSpoof > this.antiSpoofThreshold
+    ) {
+      return 'SPOOF_DETECTED';
+    }
+    const sessionScreenReplay = this.getSessionScreenReplayScore();
+    if (
+      this.screenReplayThreshold !== null &&
+      this.state.screenReplay.samples >= MIN_SCREEN_REPLAY_SAMPLES &&
+      sessionScreenReplay !== null &&
+      sessionScreenReplay > this.screenReplayThreshold
+    ) {
+      return 'SCREEN_REPLAY';
+    }
+    return null;
+  }
+
+  // 动作已全部完成但采样次数不足时，后续每帧都强制采样
+  private isAwaitingEvidence() {
+    return this.state.active && this.state.stageIndex >= this.state.plan.length;
+  }
+
+  private hasSufficientEvidence() {
+    if (this.antiSpoofClassifier && this.state.antiSpoof.samples < MIN_ANTI_SPOOF_SAMPLES) return false;
+    if (this.screenReplayThreshold !== null && this.state.screenReplay.samples < MIN_SCREEN_REPLAY_SAMPLES) return false;
+    return true;
+  }
+
+  private failSession(reason: LivenessFailureReason) {
+    this.state.failed = true;
+    this.state.failureReason = reason;
+    this.state.active = false;
+  }
+
+  private finishSession() {
+    const failureReason = this.getSessionFailureReason();
+    if (failureReason) {
+      this.failSession(failureReason);
+      return;
+    }
+    // 采样不足时不放行：保持会话进行并继续补采样，超过上限仍不足则判定失败
+    if (!this.hasSufficientEvidence()) {
+      this.state.evidenceFrames += 1;
+      if (this.state.evidenceFrames > MAX_EVIDENCE_FRAMES) {
+        this.failSession('INSUFFICIENT_EVIDENCE');
+      }
+      return;
+    }
+    this.state.completed = true;
+    this.state.active = false;
+  }
+
+  private evaluateStage(metrics: LivenessMetrics, detection: DetectionWithLandmarks): StageStatus {
+    const evaluation = evaluateStageState(this.state, metrics, detection);
+    if (evaluation.finished) {
+      this.finishSession();
+    }
+    return this.buildStageStatus(evaluation);
   }
 
   private buildStageStatus(extra?: { justCompletedStage?: LivenessStageDefinition; justCompletedIndex?: number }): StageStatus {
     const status: StageStatus = {
-      total: LIVENESS_STAGES.length,
-      stageIndex: Math.min(this.state.stageIndex, LIVENESS_STAGES.length - 1),
+      total: this.state.plan.length,
+      stageIndex: Math.min(this.state.stageIndex, this.state.plan.length - 1),
       currentStage: this.getCurrentStage(),
       completed: this.state.completed,
+      failed: this.state.failed,
     };
+    if (this.state.failureReason) {
+      status.failureReason = this.state.failureReason;
+    }
     if (extra?.justCompletedStage) {
       status.justCompletedStage = extra.justCompletedStage;
       status.justCompletedIndex = extra.justCompletedIndex;
@@ -0,0 +1,113 @@
+import { LivenessEngine } from './livenessEngine';
+import {
+  serializeProcessFrameResult,
+  type LivenessWorkerRequest,
+  type LivenessWorkerResponse,
+  type WorkerFrame,
+} from './livenessWorkerProtocol';
+
+let engine: LivenessEngine | null = null;
+let initError: string | null = null;
+let queue: Promise<void> = Promise.resolve();
+
+// init 失败或尚未到达时直接报错，不退回默认配置的引擎，以免丢失调用方的模型地址、后端与自定义动作
+function getEngine() {
+  if (initError) {
+    throw new Error(initError);
+  }
+  if (!engine) {
+    throw new Error('推理引擎尚未初始化');
+  }
+  return engine;
+}
+
+function describeError(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function respond(message: LivenessWorkerResponse) {
+  self.postMessage(message);
+}
+
+function closeFrame(frame: WorkerFrame) {
+  try {
+    frame.close();
+  } catch {
+    // 帧已被关闭时忽略
+  }
+}
+
+async function handleRequest(request: LivenessWorkerRequest) {
+  switch (request.type) {
+    case 'init':
+      engine?.dispose();
+      engine = null;
+      initError = null;
+      try {
+        await Promise.all(
+          (request.options.stageModuleUrls ?? []).map((url) => import(/* @vite-ignore */ url)),
+        );
+        engine = new LivenessEngine(request.options);
+      } catch (err) {
+        initError = describeError(err);
+        throw err;
+      }
+      respond({ type: 'done', id: request.id });
+      return;
+    case 'warmup':
+      await getEngine().warmup((event) => respond({ type: 'progress', id: request.id, event }));
+      respond({
+        type: 'warmup',
+        id: request.id,
+        modelLoadReports: getEngine().getModelLoadReports(),
+        diagnostics: getEngine().getBackendDiagnostics(),
+      });
+      return;
+    case 'startSession':
+      getEngine().startSession(request.plan);
+      respond({ type: 'done', id: request.id });
+      return;
+    case 'stopSession':
+      getEngine().stopSession();
+      respond({ type: 'done', id: request.id });
+      return;
+    case 'updateConfig':
+      getEngine().updateConfig(request.config);
+      respond({ type: 'done', id: request.id });
+      return;
+    case 'setPreprocessing':
+      getEngine().setPreprocessing(request.mode);
+      respond({ type: 'done', id: request.id });
+      return;
+    case 'processFrame':
+      try {
+        const result = await getEngine().processFrame(request.frame, request.timing);
+        respond({ type: 'result', id: request.id, result: serializeProcessFrameResult(result) });
+      } finally {
+        closeFrame(request.frame);
+      }
+      return;
+    case 'computeEmbedding':
+      try {
+        const embedding = await getEngine().computeEmbedding(request.frame, request.detection);
+        respond({ type: 'embedding', id: request.id, embedding });
+      } finally {
+        closeFrame(request.frame);
+      }
+      return;
+    case 'getTrace':
+      respond({ type: 'trace', id: request.id, trace: await getEngine().getTrace() });
+      return;
+    default:
+      return;
+  }
+}
+
+// 按到达顺序串行处理，保证 startSession/stopSession 不会插入到一帧推理的中途
+self.onmessage = (event: MessageEvent<LivenessWorkerRequest>) => {
+  const request = event.data;
+  // 任何请求失败都以 error 回复，主线程据此拒绝对应的请求；队列本身不会因此中断
+  queue = queue
+    .then(() => handleRequest(request))
+    .catch((err) => respond({ type: 'error', id: request.id, message: describeError(err) }));
+};
@@ -0,0 +1,271 @@
+import {
+  LivenessEngine,
+  normalizeChallengePlan,
+  resolveLivenessConfig,
+  type BackendDiagnostics,
+  type ChallengePlan,
+  type Detection,
+  type FrameTiming,
+  type InputElement,
+  type LivenessConfig,
+  type LivenessEngineOptions,
+  type ModelLoadProgressListener,
+  type ModelName,
+  type PreprocessingMode,
+  type ProcessFrameResult,
+  type StageStatus,
+} from './livenessEngine';
+import {
+  hydrateProcessFrameResult,
+  type LivenessWorkerRequest,
+  type LivenessWorkerResponse,
+  type WorkerFrame,
+} from './livenessWorkerProtocol';
+import type { ModelLoadReport } from './modelStore';
+
+export type LivenessEngineHandle = Pick<
+  LivenessEngine,
+  | 'warmup'
+  | 'startSession'
+  | 'stopSession'
+  | 'isReady'
+  | 'processFrame'
+  | 'computeEmbedding'
+  | 'getChallengePlan'
+  | 'getConfig'
+  | 'getTrace'
+  | 'getModelLoadReports'
+  | 'getBackendDiagnostics'
+  | 'updateConfig'
+  | 'setPreprocessing'
+  | 'dispose'
+>;
+
+interface PendingRequest {
+  resolve: (value: LivenessWorkerResponse) => void;
+  reject: (reason: Error) => void;
+}
+
+export function isWorkerEngineSupported() {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function'
+  );
+}
+
+async function captureWorkerFrame(element: InputElement): Promise<WorkerFrame> {
+  if (typeof VideoFrame !== 'undefined' && element instanceof VideoFrame) {
+    return element.clone();
+  }
+  if (typeof VideoFrame !== 'undefined' && element instanceof HTMLVideoElement) {
+    try {
+      return new VideoFrame(element);
+    } catch {
+      // 部分浏览器的 VideoFrame 不接受 video 元素，退回 ImageBitmap
+    }
+  }
+  return createImageBitmap(element);
+}
+
+export class WorkerLivenessEngine {
+  private worker: Worker;
+  private pending = new Map<number, PendingRequest>();
+  private progressListeners = new Map<number, ModelLoadProgressListener>();
+  private nextRequestId = 1;
+  private modelsLoaded = false;
+  private lastStage: StageStatus | null = null;
+  private challengePlan: ChallengePlan = normalizeChallengePlan();
+  private config: Readonly<LivenessConfig>;
+  private modelLoadReports: Partial<Record<ModelName, ModelLoadReport>> = {};
+  private diagnostics: BackendDiagnostics | null = null;
+  private preprocessing: PreprocessingMode;
+  // 同步接口（startSession 等）在 Worker 中失败的原因，由之后第一个异步请求抛出
+  private failure: Error | null = null;
+
+  constructor(options: LivenessEngineOptions = {}) {
+    // 在主线程先校验，配置错误时与本地引擎一样在构造时抛出
+    this.config = resolveLivenessConfig(options.config);
+    this.preprocessing = options.preprocessing ?? 'gpu';
+    this.worker = new Worker(new URL('./livenessWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<LivenessWorkerResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => this.rejectAll(new Error(event.message || 'Liveness worker crashed'));
+    this.notify({ type: 'init', id: this.nextRequestId++, options });
+  }
+
+  async warmup(onProgress?: ModelLoadProgressListener) {
+    if (this.modelsLoaded) return;
+    const id = this.nextRequestId++;
+    if (onProgress) {
+      this.progressListeners.set(id, onProgress);
+    }
+    try {
+      const response = await this.request(id, { type: 'warmup', id });
+      if (response.type === 'warmup') {
+        this.modelLoadReports = response.modelLoadReports;
+        this.diagnostics = response.diagnostics;
+      }
+    } finally {
+      this.progressListeners.delete(id);
+    }
+    this.modelsLoaded = true;
+  }
+
+  startSession(plan?: ChallengePlan) {
+    this.lastStage = null;
+    this.challengePlan = normalizeChallengePlan(plan);
+    this.notify({ type: 'startSession', id: this.nextRequestId++, plan: this.challengePlan });
+  }
+
+  stopSession() {
+    this.notify({ type: 'stopSession', id: this.nextRequestId++ });
+  }
+
+  isReady() {
+    return this.modelsLoaded;
+  }
+
+  getCurrentStage() {
+    return this.lastStage?.currentStage ?? null;
+  }
+
+  getChallengePlan(): ChallengePlan {
+    return { ...this.challengePlan, stages: this.challengePlan.stages.slice() };
+  }
+
+  getModelLoadReports() {
+    return { ...this.modelLoadReports };
+  }
+
+  // 模型加载完成前 Worker 侧还没有诊断数据，返回空结果
+  getBackendDiagnostics(): BackendDiagnostics {
+    return this.diagnostics ?? {
+      requestedProviders: [],
+      wasmSimdSupported: false,
+      wasmSimdEnabled: false,
+      wasmThreadsSupported: false,
+      wasmNumThreads: 0,
+      scalarWasmReason: null,
+      models: {},
+      detectorResolution: { dynamicInput: false, adaptive: false, candidates: [], current: 0 },
+      preprocessing: { requested: this.preprocessing, active: 'cpu', fallbackReason: null, averageMs: null },
+    };
+  }
+
+  getConfig() {
+    return this.config;
+  }
+
+  updateConfig(overrides: Partial<LivenessConfig>) {
+    this.config = resolveLivenessConfig({ ...this.config, ...overrides });
+    this.notify({ type: 'updateConfig', id: this.nextRequestId++, config: this.config });
+    return this.config;
+  }
+
+  setPreprocessing(mode: PreprocessingMode) {
+    this.preprocessing = mode;
+    this.notify({ type: 'setPreprocessing', id: this.nextRequestId++, mode });
+  }
+
+  // 未传入 timing 时在主线程取时间，避免把 Worker 排队等待的时间算进帧间隔
+  async processFrame(element: InputElement, timing?: FrameTiming): Promise<ProcessFrameResult> {
+    const frameTiming = timing ?? { timestampMs: performance.now() };
+    const frame = await captureWorkerFrame(element);
+    const id = this.nextRequestId++;
+    const response = await this.request(id, { type: 'processFrame', id, frame, timing: frameTiming }, [frame]);
+    if (response.type !== 'result') {
+      throw new Error('Unexpected liveness worker response');
+    }
+    const result = hydrateProcessFrameResult(response.result);
+    this.lastStage = result.stage;
+    // 诊断数据只在 warmup 时同步一次，检测分辨率与预处理状态随帧结果更新
+    if (this.diagnostics) {
+      this.diagnostics.detectorResolution.current = result.detectorResolution;
+      this.diagnostics.preprocessing = result.preprocessing;
+    }
+    return result;
+  }
+
+  async computeEmbedding(element: InputElement, detection?: Detection | null) {
+    const frame = await captureWorkerFrame(element);
+    const id = this.nextRequestId++;
+    const response = await this.request(id, { type: 'computeEmbedding', id, frame, detection }, [frame]);
+    if (response.type !== 'embedding') {
+      throw new Error('Unexpected liveness worker response');
+    }
+    return response.embedding;
+  }
+
+  // 轨迹在 Worker 中记录，按需整体取回
+  async getTrace() {
+    const id = this.nextRequestId++;
+    const response = await this.request(id, { type: 'getTrace', id });
+    if (response.type !== 'trace') {
+      throw new Error('Unexpected liveness worker response');
+    }
+    return response.trace;
+  }
+
+  dispose() {
+    this.rejectAll(new Error('Liveness worker disposed'));
+    this.worker.terminate();
+  }
+
+  private post(message: LivenessWorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private request(id: number, message: LivenessWorkerRequest, transfer: Transferable[] = []) {
+    return new Promise<LivenessWorkerResponse>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.post(message, transfer);
+    });
+  }
+
+  // 不等待回复的请求：失败时记下错误，不产生未处理的 Promise 拒绝
+  private notify(message: LivenessWorkerRequest) {
+    this.pending.set(message.id, {
+      resolve: () => undefined,
+      reject: (error) => {
+        if (!this.failure) {
+          this.failure = error;
+        }
+      },
+    });
+    this.post(message);
+  }
+
+  private handleResponse(response: LivenessWorkerResponse) {
+    if (response.type === 'progress') {
+      this.progressListeners.get(response.id)?.(response.event);
+      return;
+    }
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+      return;
+    }
+    // Worker 串行处理请求，先前同步接口的失败在其后第一个回复上抛出
+    const failure = this.failure;
+    if (failure) {
+      this.failure = null;
+      pending.reject(failure);
+      return;
+    }
+    pending.resolve(response);
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+}
+
+export function createLivenessEngine(options: LivenessEngineOptions = {}): LivenessEngineHandle {
+  if (isWorkerEngineSupported()) {
+    return new WorkerLivenessEngine(options);
+  }
+  return new LivenessEngine(options);
+}
@@ -0,0 +1,112 @@
+import type { ModelLoadReport } from './modelStore';
+import {
+  getLivenessStage,
+  type BackendDiagnostics,
+  type ChallengePlan,
+  type Detection,
+  type FrameTiming,
+  type LivenessConfig,
+  type LivenessEngineOptions,
+  type LivenessFailureReason,
+  type LivenessStageKey,
+  type LivenessTrace,
+  type ModelLoadProgress,
+  type ModelName,
+  type PreprocessingMode,
+  type ProcessFrameResult,
+  type StageStatus,
+} from './livenessEngine';
+
+export type WorkerFrame = ImageBitmap | VideoFrame;
+
+// 阶段定义里带有 check 函数，无法结构化克隆，跨线程时只传 key
+export interface SerializedStageStatus {
+  total: number;
+  stageIndex: number;
+  currentStageKey: LivenessStageKey | null;
+  completed: boolean;
+  failed: boolean;
+  failureReason?: LivenessFailureReason;
+  justCompletedStageKey?: LivenessStageKey;
+  justCompletedIndex?: number;
+}
+
+export interface SerializedProcessFrameResult extends Omit<ProcessFrameResult, 'stage'> {
+  stage: SerializedStageStatus;
+}
+
+// 每个请求都带 id，Worker 处理完后以同一 id 回复结果、done 或 error
+export type LivenessWorkerRequest =
+  | { type: 'init'; id: number; options: LivenessEngineOptions }
+  | { type: 'warmup'; id: number }
+  | { type: 'startSession'; id: number; plan?: ChallengePlan }
+  | { type: 'stopSession'; id: number }
+  | { type: 'updateConfig'; id: number; config: Partial<LivenessConfig> }
+  | { type: 'setPreprocessing'; id: number; mode: PreprocessingMode }
+  | { type: 'processFrame'; id: number; frame: WorkerFrame; timing?: FrameTiming }
+  | { type: 'computeEmbedding'; id: number; frame: WorkerFrame; detection?: Detection | null }
+  | { type: 'getTrace'; id: number };
+
+export type LivenessWorkerResponse =
+  | {
+    type: 'warmup';
+    id: number;
+    modelLoadReports: Partial<Record<ModelName, ModelLoadReport>>;
+    diagnostics: BackendDiagnostics;
+  }
+  | { type: 'progress'; id: number; event: ModelLoadProgress }
+  | { type: 'result'; id: number; result: SerializedProcessFrameResult }
+  | { type: 'embedding'; id: number; embedding: Float32Array | null }
+  | { type: 'trace'; id: number; trace: LivenessTrace | null }
+  | { type: 'done'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+export function serializeStageStatus(status: StageStatus): SerializedStageStatus {
+  const serialized: SerializedStageStatus = {
+    total: status.total,
+    stageIndex: status.stageIndex,
+    currentStageKey: status.currentStage?.key ?? null,
+    completed: status.completed,
+    failed: status.failed,
+  };
+  if (status.failureReason) {
+    serialized.failureReason = status.failureReason;
+  }
+  if (status.justCompletedStage) {
+    serialized.justCompletedStageKey = status.justCompletedStage.key;
+    serialized.justCompletedIndex = status.justCompletedIndex;
+  }
+  return serialized;
+}
+
+function findStage(key: LivenessStageKey | null | undefined) {
+  if (!key) return null;
+  return getLivenessStage(key);
+}
+
+export function hydrateStageStatus(serialized: SerializedStageStatus): StageStatus {
+  const status: StageStatus = {
+    total: serialized.total,
+    stageIndex: serialized.stageIndex,
+    currentStage: findStage(serialized.currentStageKey),
+    completed: serialized.completed,
+    failed: serialized.failed,
+  };
+  if (serialized.failureReason) {
+    status.failureReason = serialized.failureReason;
+  }
+  const justCompletedStage = findStage(serialized.justCompletedStageKey);
+  if (justCompletedStage) {
+    status.justCompletedStage = justCompletedStage;
+    status.justCompletedIndex = serialized.justCompletedIndex;
+  }
+  return status;
+}
+
+export function serializeProcessFrameResult(result: ProcessFrameResult): SerializedProcessFrameResult {
+  return { ...result, stage: serializeStageStatus(result.stage) };
+}
+
+export function hydrateProcessFrameResult(result: SerializedProcessFrameResult): ProcessFrameResult {
+  return { ...result, stage: hydrateStageStatus(result.stage) };
+}
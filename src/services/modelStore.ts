@@ -0,0 +1,240 @@
+export type ModelCacheBackend = 'cache-storage' | 'indexeddb' | 'none';
+
+export interface ModelLoadRequest {
+  /** 逻辑模型名，同名不同版本只保留最新一份 */
+  name: string;
+  version: string;
+  /** 期望的 SHA-256（十六进制）；不设置时缓存条目按写入时记录的摘要校验 */
+  sha256?: string;
+  fetch: () => Promise<ArrayBuffer>;
+}
+
+export interface ModelLoadReport {
+  name: string;
+  version: string;
+  cacheHit: boolean;
+  verified: boolean;
+  backend: ModelCacheBackend;
+  sha256: string | null;
+}
+
+export interface ModelStoreOptions {
+  /** Cache Storage 名称 / IndexedDB 库名 */
+  namespace?: string;
+  backend?: ModelCacheBackend;
+}
+
+interface StoredModel {
+  key: string;
+  name: string;
+  version: string;
+  buffer: ArrayBuffer;
+  /** 写入时计算的 SHA-256，WebCrypto 不可用时为 null */
+  sha256: string | null;
+  byteLength: number;
+}
+
+type CachedModel = Pick<StoredModel, 'buffer'> & Partial<Pick<StoredModel, 'sha256' | 'byteLength'>>;
+
+const DEFAULT_NAMESPACE = 'liveness-models';
+// Cache Storage 只接受 http(s) 请求作为键，这里用一个不会真正访问的地址
+const CACHE_KEY_ORIGIN = 'https://liveness-model-cache.invalid';
+const IDB_STORE_NAME = 'models';
+const SHA256_HEADER = 'x-model-sha256';
+const BYTE_LENGTH_HEADER = 'x-model-byte-length';
+
+function canHash() {
+  return typeof crypto !== 'undefined' && Boolean(crypto.subtle);
+}
+
+export async function sha256Hex(buffer: ArrayBuffer) {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('当前环境不支持 WebCrypto，无法校验模型完整性');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function detectBackend(): ModelCacheBackend {
+  if (typeof caches !== 'undefined') return 'cache-storage';
+  if (typeof indexedDB !== 'undefined') return 'indexeddb';
+  return 'none';
+}
+
+// 配置了期望摘要时按其校验；否则与写入时记录的摘要比对，WebCrypto 不可用时至少比对字节数。
+// 没有任何记录的旧条目无法判断是否损坏，视为不可信
+function isIntact(cached: CachedModel, expected: string | null, actual: string | null) {
+  if (typeof cached.byteLength === 'number' && cached.buffer.byteLength !== cached.byteLength) return false;
+  if (expected) return actual === expected;
+  if (cached.sha256 && actual) return actual === cached.sha256;
+  return typeof cached.byteLength === 'number';
+}
+
+function buildKey(name: string, version: string) {
+  return `${CACHE_KEY_ORIGIN}/${encodeURIComponent(name)}/${encodeURIComponent(version)}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class ModelStore {
+  private namespace: string;
+  private backend: ModelCacheBackend;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options: ModelStoreOptions = {}) {
+    this.namespace = options.namespace ?? DEFAULT_NAMESPACE;
+    this.backend = options.backend ?? detectBackend();
+  }
+
+  // 先查缓存，命中且校验通过直接返回；缓存内容损坏时丢弃并重新下载，下载内容不符则拒绝
+  async load(request: ModelLoadRequest): Promise<{ buffer: ArrayBuffer; report: ModelLoadReport }> {
+    const key = buildKey(request.name, request.version);
+    const expected = request.sha256?.toLowerCase() ?? null;
+    const cached = await this.read(key).catch(() => null);
+    if (cached) {
+      const actual = canHash() ? await sha256Hex(cached.buffer) : null;
+      if (isIntact(cached, expected, actual)) {
+        return { buffer: cached.buffer, report: this.buildReport(request, true, actual) };
+      }
+      await this.remove(key).catch(() => undefined);
+    }
+    const buffer = await request.fetch();
+    const actual = expected || canHash() ? await sha256Hex(buffer) : null;
+    if (expected && actual !== expected) {
+      throw new Error(`模型 ${request.name} 完整性校验失败：期望 SHA-256 ${expected}，实际 ${actual}`);
+    }
+    await this.write({
+      key,
+      name: request.name,
+      version: request.version,
+      buffer,
+      sha256: actual,
+      byteLength: buffer.byteLength,
+    }).catch(() => undefined);
+    await this.evictStale(request.name, request.version).catch(() => undefined);
+    return { buffer, report: this.buildReport(request, false, actual) };
+  }
+
+  // 删除同名模型的其它版本
+  async evictStale(name: string, keepVersion: string) {
+    const keepKey = buildKey(name, keepVersion);
+    const prefix = buildKey(name, '');
+    const keys = await this.keys();
+    await Promise.all(
+      keys.filter((key) => key.startsWith(prefix) && key !== keepKey).map((key) => this.remove(key)),
+    );
+  }
+
+  async clear() {
+    if (this.backend === 'cache-storage') {
+      await caches.delete(this.namespace);
+      return;
+    }
+    if (this.backend === 'indexeddb') {
+      const db = await this.openDb();
+      const tx = db.transaction(IDB_STORE_NAME, 'readwrite');
+      await requestToPromise(tx.objectStore(IDB_STORE_NAME).clear());
+    }
+  }
+
+  private buildReport(request: ModelLoadRequest, cacheHit: boolean, sha256: string | null): ModelLoadReport {
+    return {
+      name: request.name,
+      version: request.version,
+      cacheHit,
+      verified: Boolean(request.sha256),
+      backend: this.backend,
+      sha256,
+    };
+  }
+
+  private async read(key: string): Promise<CachedModel | null> {
+    if (this.backend === 'cache-storage') {
+      const cache = await caches.open(this.namespace);
+      const response = await cache.match(key);
+      if (!response) return null;
+      const byteLength = Number(response.headers.get(BYTE_LENGTH_HEADER));
+      return {
+        buffer: await response.arrayBuffer(),
+        sha256: response.headers.get(SHA256_HEADER),
+        byteLength: response.headers.has(BYTE_LENGTH_HEADER) && Number.isFinite(byteLength) ? byteLength : undefined,
+      };
+    }
+    if (this.backend === 'indexeddb') {
+      const db = await this.openDb();
+      const tx = db.transaction(IDB_STORE_NAME, 'readonly');
+      const record = await requestToPromise<StoredModel | undefined>(tx.objectStore(IDB_STORE_NAME).get(key));
+      return record ?? null;
+    }
+    return null;
+  }
+
+  private async write(model: StoredModel) {
+    if (this.backend === 'cache-storage') {
+      const cache = await caches.open(this.namespace);
+      await cache.put(
+        model.key,
+        new Response(model.buffer, {
+          headers: {
+            'content-type': 'application/octet-stream',
+            [BYTE_LENGTH_HEADER]: String(model.byteLength),
+            ...(model.sha256 ? { [SHA256_HEADER]: model.sha256 } : {}),
+          },
+        }),
+      );
+      return;
+    }
+    if (this.backend === 'indexeddb') {
+      const db = await this.openDb();
+      const tx = db.transaction(IDB_STORE_NAME, 'readwrite');
+      await requestToPromise(tx.objectStore(IDB_STORE_NAME).put(model));
+    }
+  }
+
+  private async remove(key: string) {
+    if (this.backend === 'cache-storage') {
+      const cache = await caches.open(this.namespace);
+      await cache.delete(key);
+      return;
+    }
+    if (this.backend === 'indexeddb') {
+      const db = await this.openDb();
+      const tx = db.transaction(IDB_STORE_NAME, 'readwrite');
+      await requestToPromise(tx.objectStore(IDB_STORE_NAME).delete(key));
+    }
+  }
+
+  private async keys() {
+    if (this.backend === 'cache-storage') {
+      const cache = await caches.open(this.namespace);
+      const requests = await cache.keys();
+      return requests.map((request) => request.url);
+    }
+    if (this.backend === 'indexeddb') {
+      const db = await this.openDb();
+      const tx = db.transaction(IDB_STORE_NAME, 'readonly');
+      const keys = await requestToPromise(tx.objectStore(IDB_STORE_NAME).getAllKeys());
+      return keys.map(String);
+    }
+    return [];
+  }
+
+  private openDb() {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.namespace, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+}
@@ -0,0 +1,260 @@
+export type OcclusionRegion = 'leftEye' | 'rightEye' | 'nose' | 'mouth';
+
+export const OCCLUSION_REGIONS: OcclusionRegion[] = ['leftEye', 'rightEye', 'nose', 'mouth'];
+
+export interface OcclusionRegionAnalysis {
+  /** 颜色偏离皮肤的程度 0~1；眼部还计入明显偏暗（墨镜） */
+  colorScore: number;
+  /** 纹理缺失程度 0~1：区域梯度能量相对额头参考的不足 */
+  textureScore: number;
+  /** 关键点几何合理性 0~1，1 表示符合正常人脸比例 */
+  plausibility: number;
+  score: number;
+  occluded: boolean;
+}
+
+export interface OcclusionAnalysis {
+  regions: Record<OcclusionRegion, OcclusionRegionAnalysis>;
+  occluded: boolean;
+  /** 额头参考区域是否像皮肤；不像（刘海、帽子）时改用通用肤色作参考 */
+  skinReference: boolean;
+}
+
+type Point = { x: number; y: number };
+
+interface Rect {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface RegionStats {
+  luma: number;
+  cb: number;
+  cr: number;
+  texture: number;
+}
+
+export const DEFAULT_OCCLUSION_THRESHOLD = 0.5;
+
+// YCbCr 下常见肤色的色度范围与中心
+const SKIN_CHROMA = { cbMin: 77, cbMax: 127, crMin: 133, crMax: 173, cb: 105, cr: 150 };
+const CHROMA_DISTANCE_RANGE = { low: 10, high: 30 };
+// 眼部亮度低于额头的该比例开始计为墨镜
+const DARK_LUMA_RATIO = { high: 0.65, span: 0.3 };
+// 各区域正常情况下相对额头的最低纹理比：眼睛、嘴唇边缘明显，鼻子次之
+const EXPECTED_TEXTURE_RATIO: Record<OcclusionRegion, number> = {
+  leftEye: 1.8,
+  rightEye: 1.8,
+  nose: 1.2,
+  mouth: 1.4,
+};
+// 额头过于平滑时按该梯度值计算比例，避免除以接近 0 的数
+const MIN_REFERENCE_TEXTURE = 3;
+const MIN_REGION_PIXELS = 16;
+const SCORE_WEIGHTS = { color: 0.6, texture: 0.4, appearance: 0.8, geometry: 0.2 };
+
+function clamp01(value: number) {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+function rangeScore(value: number, range: { low: number; high: number }) {
+  return clamp01((value - range.low) / (range.high - range.low));
+}
+
+// 区间内为 1，越出区间按相对距离线性衰减，越出 softness 比例时为 0
+function withinRange(value: number, low: number, high: number, softness = 0.5) {
+  if (!Number.isFinite(value)) return 0;
+  if (value < low) return clamp01(1 - (low - value) / (low * softness));
+  if (value > high) return clamp01(1 - (value - high) / (high * softness));
+  return 1;
+}
+
+function distance(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function boundsOf(landmarks: Point[], from: number, to: number, padX: number, padY: number): Rect {
+  let x1 = Infinity;
+  let y1 = Infinity;
+  let x2 = -Infinity;
+  let y2 = -Infinity;
+  for (let i = from; i <= to; i += 1) {
+    const { x, y } = landmarks[i];
+    x1 = Math.min(x1, x);
+    y1 = Math.min(y1, y);
+    x2 = Math.max(x2, x);
+    y2 = Math.max(y2, y);
+  }
+  return { x1: x1 - padX, y1: y1 - padY, x2: x2 + padX, y2: y2 + padY };
+}
+
+function toLuma(data: Uint8ClampedArray | Uint8Array, area: number) {
+  const luma = new Float32Array(area);
+  for (let i = 0, j = 0; j < area; i += 4, j += 1) {
+    luma[j] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return luma;
+}
+
+// 区域平均亮度、色度与梯度能量（中心差分绝对值均值）
+function regionStats(data: Uint8ClampedArray | Uint8Array, luma: Float32Array, size: number, rect: Rect): RegionStats | null {
+  const x1 = Math.max(1, Math.floor(rect.x1));
+  const y1 = Math.max(1, Math.floor(rect.y1));
+  const x2 = Math.min(size - 1, Math.ceil(rect.x2));
+  const y2 = Math.min(size - 1, Math.ceil(rect.y2));
+  const count = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  if (count < MIN_REGION_PIXELS) return null;
+  let lumaSum = 0;
+  let cbSum = 0;
+  let crSum = 0;
+  let textureSum = 0;
+  for (let y = y1; y < y2; y += 1) {
+    for (let x = x1; x < x2; x += 1) {
+      const index = y * size + x;
+      const r = data[index * 4];
+      const g = data[index * 4 + 1];
+      const b = data[index * 4 + 2];
+      lumaSum += luma[index];
+      cbSum += 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+      crSum += 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+      textureSum += (Math.abs(luma[index + 1] - luma[index - 1]) + Math.abs(luma[index + size] - luma[index - size])) / 2;
+    }
+  }
+  return {
+    luma: lumaSum / count,
+    cb: cbSum / count,
+    cr: crSum / count,
+    texture: textureSum / count,
+  };
+}
+
+function isSkinChroma(stats: RegionStats) {
+  return (
+    stats.cb >= SKIN_CHROMA.cbMin &&
+    stats.cb <= SKIN_CHROMA.cbMax &&
+    stats.cr >= SKIN_CHROMA.crMin &&
+    stats.cr <= SKIN_CHROMA.crMax
+  );
+}
+
+// 双眉之间上方一块额头作为本人肤色与纹理的参考；口罩、墨镜都不会挡住这里
+function getForeheadRect(landmarks: Point[], iod: number): Rect {
+  const browTop = Math.min(...landmarks.slice(33, 51).map((point) => point.y));
+  return {
+    x1: Math.min(landmarks[35].x, landmarks[44].x),
+    x2: Math.max(landmarks[35].x, landmarks[44].x),
+    y1: browTop - iod * 0.45,
+    y2: browTop - iod * 0.1,
+  };
+}
+
+function getRegionRect(region: OcclusionRegion, landmarks: Point[], iod: number): Rect {
+  switch (region) {
+    case 'leftEye':
+      return boundsOf(landmarks, 60, 67, iod * 0.15, iod * 0.12);
+    case 'rightEye':
+      return boundsOf(landmarks, 68, 75, iod * 0.15, iod * 0.12);
+    case 'nose':
+      return boundsOf(landmarks, 52, 59, iod * 0.05, 0);
+    case 'mouth':
+      return boundsOf(landmarks, 76, 87, iod * 0.1, iod * 0.1);
+  }
+}
+
+// 被遮挡时关键点模型往往给出变形的五官：检查以双眼间距归一化的比例与上下顺序
+function computePlausibility(region: OcclusionRegion, landmarks: Point[], iod: number): number {
+  switch (region) {
+    case 'leftEye':
+    case 'rightEye': {
+      const [inner, outer, pupil] = region === 'leftEye' ? [60, 64, 96] : [68, 72, 97];
+      const width = distance(landmarks[inner], landmarks[outer]);
+      const minX = Math.min(landmarks[inner].x, landmarks[outer].x);
+      const maxX = Math.max(landmarks[inner].x, landmarks[outer].x);
+      const pupilInside = landmarks[pupil].x >= minX && landmarks[pupil].x <= maxX ? 1 : 0;
+      return withinRange(width / iod, 0.25, 0.6) * pupilInside;
+    }
+    case 'nose': {
+      const eyeY = (landmarks[96].y + landmarks[97].y) / 2;
+      const tip = landmarks[54];
+      const ordered = tip.y > eyeY && tip.y < landmarks[79].y ? 1 : 0;
+      const minX = Math.min(landmarks[96].x, landmarks[97].x);
+      const maxX = Math.max(landmarks[96].x, landmarks[97].x);
+      const centered = tip.x >= minX && tip.x <= maxX ? 1 : 0;
+      return withinRange(distance(landmarks[51], tip) / iod, 0.35, 1.1) * ordered * centered;
+    }
+    case 'mouth': {
+      const ordered =
+        landmarks[79].y <= landmarks[90].y &&
+        landmarks[90].y <= landmarks[94].y &&
+        landmarks[94].y <= landmarks[85].y
+          ? 1
+          : 0;
+      return withinRange(distance(landmarks[76], landmarks[82]) / iod, 0.6, 1.3) * ordered;
+    }
+  }
+}
+
+// 对关键点划出的眼、鼻、嘴区域做颜色与纹理分析，并结合关键点几何合理性给出遮挡分数。
+// data 为 size×size 的 RGBA 人脸区域，landmarks 为该区域像素坐标下的 WFLW 98 点
+export function analyzeOcclusion(
+  data: Uint8ClampedArray | Uint8Array,
+  size: number,
+  landmarks: Point[],
+  threshold = DEFAULT_OCCLUSION_THRESHOLD,
+): OcclusionAnalysis {
+  const area = size * size;
+  if (data.length < area * 4) {
+    throw new Error('遮挡分析输入数据长度不足');
+  }
+  if (landmarks.length < 98) {
+    throw new Error(`遮挡分析需要 98 个关键点，实际 ${landmarks.length} 个`);
+  }
+  const luma = toLuma(data, area);
+  const iod = Math.max(1, distance(landmarks[96], landmarks[97]));
+  const forehead = regionStats(data, luma, size, getForeheadRect(landmarks, iod));
+  const skinReference = Boolean(forehead && isSkinChroma(forehead));
+  const reference = skinReference && forehead
+    ? forehead
+    : { luma: forehead?.luma ?? 0, cb: SKIN_CHROMA.cb, cr: SKIN_CHROMA.cr, texture: MIN_REFERENCE_TEXTURE };
+  const referenceTexture = Math.max(MIN_REFERENCE_TEXTURE, reference.texture);
+
+  const regions = {} as Record<OcclusionRegion, OcclusionRegionAnalysis>;
+  for (const region of OCCLUSION_REGIONS) {
+    const stats = regionStats(data, luma, size, getRegionRect(region, landmarks, iod));
+    const plausibility = computePlausibility(region, landmarks, iod);
+    if (!stats) {
+      // 区域落在画面外，无法判断
+      regions[region] = { colorScore: 0, textureScore: 0, plausibility, score: 0, occluded: false };
+      continue;
+    }
+    const isEye = region === 'leftEye' || region === 'rightEye';
+    // 墨镜镜框本身有很强的边缘，纹理不可靠，明显偏暗即可判定
+    const darkness = isEye && reference.luma > 0
+      ? clamp01((DARK_LUMA_RATIO.high - stats.luma / reference.luma) / DARK_LUMA_RATIO.span)
+      : 0;
+    const chroma = rangeScore(Math.hypot(stats.cb - reference.cb, stats.cr - reference.cr), CHROMA_DISTANCE_RANGE);
+    const colorScore = Math.max(chroma, darkness);
+    const expected = EXPECTED_TEXTURE_RATIO[region];
+    const textureScore = clamp01((expected - stats.texture / referenceTexture) / (expected - 1));
+    const appearance = Math.max(
+      darkness,
+      colorScore * SCORE_WEIGHTS.color + textureScore * SCORE_WEIGHTS.texture,
+    );
+    const score = clamp01(appearance * SCORE_WEIGHTS.appearance + (1 - plausibility) * SCORE_WEIGHTS.geometry);
+    regions[region] = {
+      colorScore: Math.round(colorScore * 1000) / 1000,
+      textureScore: Math.round(textureScore * 1000) / 1000,
+      plausibility: Math.round(plausibility * 1000) / 1000,
+      score: Math.round(score * 1000) / 1000,
+      occluded: score > threshold,
+    };
+  }
+  return {
+    regions,
+    occluded: OCCLUSION_REGIONS.some((region) => regions[region].occluded),
+    skinReference,
+  };
+}
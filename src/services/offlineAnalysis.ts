@@ -0,0 +1,454 @@
+import {
+  getInputSize,
+  getLivenessStage,
+  normalizeChallengePlan,
+  type BackendDiagnostics,
+  type ChallengePlan,
+  type DetectionWithLandmarks,
+  type FrameTiming,
+  type InputElement,
+  type LivenessConfig,
+  type LivenessFailureReason,
+  type LivenessMetrics,
+  type LivenessStageKey,
+  type LivenessTrace,
+  type ProcessFrameResult,
+} from './livenessEngine';
+import type { LivenessEngineHandle } from './livenessWorkerClient';
+import { ALIGNMENT_TEMPLATES, drawAlignedFace } from './faceAlignment';
+import { computeImageQuality } from './imageQuality';
+import {
+  evaluateCompliance,
+  measureEyeGlare,
+  type ComplianceLimits,
+  type ComplianceMeasurements,
+  type ComplianceReport,
+} from './photoCompliance';
+import { StageTimer, type StageTimerState } from './stageTimer';
+
+export const DEFAULT_OFFLINE_FRAME_RATE = 30;
+
+export interface OfflineFrame {
+  element: InputElement;
+  /** 帧在录像时间线上的时间，timestampMs 从 0 开始 */
+  timing: FrameTiming;
+}
+
+export interface ImageSequenceOptions {
+  /** 相邻两张图片之间的间隔（毫秒），默认按 30fps 计 */
+  frameIntervalMs?: number;
+}
+
+// 引擎之外的失败原因：动作超时（实时流程由组件计时），以及录像结束时动作仍未完成
+export type OfflineFailureReason = 'STAGE_TIMEOUT' | 'RECORDING_ENDED';
+
+export interface OfflineAnalysisOptions {
+  /** 录像对应的动作序列，需与录制时一致 */
+  challengePlan?: ChallengePlan;
+  /** 各动作的超时覆盖，未设置时取动作定义的 timeoutMs，再退回 3000ms */
+  stageTimeoutsMs?: Partial<Record<LivenessStageKey, number>>;
+  /** 关键帧证件照合规判定的阈值覆盖 */
+  complianceLimits?: Partial<ComplianceLimits>;
+  /** 每处理完一帧回调一次 */
+  onFrame?: (result: ProcessFrameResult) => void;
+  signal?: AbortSignal;
+}
+
+export interface OfflineAnalysisResult {
+  event: 'LIVENESS_RESULT';
+  status: 'PASS' | 'FAIL';
+  sessionState: 'COMPLETED' | 'FAILED';
+  challengePlan: ChallengePlan;
+  config: Readonly<LivenessConfig> | null;
+  diagnostics: BackendDiagnostics | null;
+  failureReason: LivenessFailureReason | OfflineFailureReason | null;
+  referenceMatch: null;
+  scores: {
+    qualityScore: number | null;
+    brightnessScore: number | null;
+    brightnessStatus: string | null;
+    frontalFaceScore: number | null;
+    clarityScore: number | null;
+    uniformLightingScore: number | null;
+    backgroundUniformityScore: number | null;
+    pixelResolutionScore: number | null;
+    spoofProbability: number | null;
+    screenReplayScore: number | null;
+  };
+  compliance: ComplianceReport | null;
+  images: {
+    faceFull: string | null;
+    faceCrop: string | null;
+    faceAligned: string | null;
+    gifs: Record<string, string>;
+  };
+  /** 引擎记录的动作判定轨迹，与实时会话的 getTrace 同格式，可直接交给 replayLivenessTrace；引擎未开启 traceRecording 时为 null */
+  trace: LivenessTrace | null;
+}
+
+interface KeyFrame {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  detection: DetectionWithLandmarks;
+  metrics: LivenessMetrics;
+}
+
+function describeMediaError(video: HTMLVideoElement) {
+  return new Error(`视频解码失败: ${video.error?.message || video.error?.code || '未知错误'}`);
+}
+
+function waitForMediaEvent(video: HTMLVideoElement, event: 'loadeddata') {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(describeMediaError(video));
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+}
+
+// 继续播放到下一个呈现的帧后立即暂停，返回该帧的元数据；播放结束时返回 null
+function nextPresentedFrame(video: HTMLVideoElement) {
+  return new Promise<VideoFrameCallbackMetadata | null>((resolve, reject) => {
+    if (video.ended) {
+      resolve(null);
+      return;
+    }
+    const cleanup = () => {
+      video.removeEventListener('ended', onEnded);
+      video.removeEventListener('error', onError);
+    };
+    const handle = video.requestVideoFrameCallback((_now, metadata) => {
+      video.pause();
+      cleanup();
+      resolve(metadata);
+    });
+    const onEnded = () => {
+      video.cancelVideoFrameCallback(handle);
+      cleanup();
+      resolve(null);
+    };
+    const onError = () => {
+      video.cancelVideoFrameCallback(handle);
+      cleanup();
+      reject(describeMediaError(video));
+    };
+    video.addEventListener('ended', onEnded);
+    video.addEventListener('error', onError);
+    video.play().catch((err) => {
+      video.cancelVideoFrameCallback(handle);
+      cleanup();
+      reject(err);
+    });
+  });
+}
+
+// 播放视频并用 requestVideoFrameCallback 逐个取解码出的真实帧，时间戳取自帧的 mediaTime，
+// 因此低帧率或可变帧率的录像不会按固定帧率重复取帧。每帧都先暂停，调用方处理完后才继续播放，与处理耗时无关
+export async function* readVideoFrames(source: Blob | string): AsyncGenerator<OfflineFrame> {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  const video = document.createElement('video');
+  if (typeof video.requestVideoFrameCallback !== 'function') {
+    if (typeof source !== 'string') {
+      URL.revokeObjectURL(url);
+    }
+    throw new Error('当前浏览器不支持 requestVideoFrameCallback，无法逐帧读取视频');
+  }
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  // 不在文档中的 video 部分浏览器不会触发帧回调，挂到页面上但不可见
+  video.style.cssText = 'position:fixed;left:0;top:0;width:1px;height:1px;opacity:0;pointer-events:none';
+  document.body.appendChild(video);
+  try {
+    const loaded = waitForMediaEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    if (!video.videoWidth || !video.videoHeight) {
+      throw new Error('无法读取视频尺寸');
+    }
+    let lastMediaTime: number | null = null;
+    for (;;) {
+      const metadata = await nextPresentedFrame(video);
+      if (!metadata) break;
+      // 同一帧被重复呈现时 mediaTime 不变，跳过
+      if (metadata.mediaTime === lastMediaTime) continue;
+      lastMediaTime = metadata.mediaTime;
+      yield {
+        element: video,
+        timing: { timestampMs: metadata.mediaTime * 1000, mediaTime: metadata.mediaTime, frameNumber: metadata.presentedFrames },
+      };
+    }
+  } finally {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    video.remove();
+    if (typeof source !== 'string') {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+async function decodeImage(source: Blob | string) {
+  if (typeof source !== 'string') return createImageBitmap(source);
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = source;
+  await image.decode();
+  return createImageBitmap(image);
+}
+
+// 按给定顺序逐张解码图片，以固定间隔作为时间戳
+export async function* readImageFrames(
+  sources: Array<Blob | string>,
+  options: ImageSequenceOptions = {},
+): AsyncGenerator<OfflineFrame> {
+  const interval = options.frameIntervalMs ?? 1000 / DEFAULT_OFFLINE_FRAME_RATE;
+  if (!(interval > 0)) {
+    throw new Error('图片序列的帧间隔必须大于 0');
+  }
+  for (let i = 0; i < sources.length; i += 1) {
+    const bitmap = await decodeImage(sources[i]);
+    try {
+      yield { element: bitmap, timing: { timestampMs: i * interval, frameNumber: i } };
+    } finally {
+      bitmap.close();
+    }
+  }
+}
+
+// 把当前帧整帧拷贝下来；图片帧在处理完后会被释放，关键帧必须在循环内留存
+function copyKeyFrame(element: InputElement, previous: KeyFrame | null) {
+  const { width, height } = getInputSize(element);
+  if (!width || !height) return null;
+  const canvas = previous?.canvas ?? document.createElement('canvas');
+  const ctx = previous?.ctx ?? canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(element, 0, 0, width, height);
+  return { canvas, ctx };
+}
+
+function cropFace(source: HTMLCanvasElement, bbox: [number, number, number, number]) {
+  const [x1, y1, x2, y2] = bbox;
+  const side = Math.max(1, x2 - x1, y2 - y1) * 1.4;
+  const cropX = Math.max(0, (x1 + x2) / 2 - side / 2);
+  const cropY = Math.max(0, (y1 + y2) / 2 - side / 2);
+  const cropW = Math.min(source.width - cropX, side);
+  const cropH = Math.min(source.height - cropY, side);
+  if (cropW <= 0 || cropH <= 0) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(cropW);
+  canvas.height = Math.round(cropH);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, cropX, cropY, cropW, cropH, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+function alignFace(source: HTMLCanvasElement, kps?: Array<{ x: number; y: number }>) {
+  if (!kps || kps.length < 5) return null;
+  const template = ALIGNMENT_TEMPLATES.arcface;
+  const canvas = document.createElement('canvas');
+  canvas.width = template.size;
+  canvas.height = template.size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !drawAlignedFace(ctx, source, kps, template.size, template)) return null;
+  return canvas.toDataURL('image/png');
+}
+
+// 与实时组件相同：取正脸分最高且未遮挡的一帧计算质量分与合规判定
+function evaluateKeyFrame(keyFrame: KeyFrame, complianceLimits?: Partial<ComplianceLimits>) {
+  const { canvas, ctx, detection, metrics } = keyFrame;
+  const { width, height } = canvas;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const quality = computeImageQuality({ data, width, height, bbox: detection.bbox, kps: detection.kps });
+  const glare = measureEyeGlare(data, width, height, detection.landmarks);
+  const landmarks = detection.landmarks;
+  const kps = detection.kps ?? [];
+  const eyeCenters: ComplianceMeasurements['eyeCenters'] = landmarks.length >= 98
+    ? [landmarks[96], landmarks[97]]
+    : kps.length >= 2 ? [kps[0], kps[1]] : null;
+  const compliance = evaluateCompliance({
+    imageWidth: width,
+    imageHeight: height,
+    bbox: detection.bbox,
+    eyeCenters,
+    leftEar: metrics.blink?.leftEar ?? null,
+    rightEar: metrics.blink?.rightEar ?? null,
+    mouthRatio: metrics.mouthRatio,
+    poseDegrees: metrics.poseDegrees,
+    backgroundUniformity: quality.backgroundUniformity,
+    brightness: quality.brightness?.brightness ?? null,
+    overexposedRatio: quality.brightness?.overexposedRatio ?? null,
+    eyeGlareRatio: glare === null ? null : Math.round(glare * 1000) / 1000,
+  }, complianceLimits);
+  return { quality, compliance };
+}
+
+function averageScore(values: Array<number | null>) {
+  if (values.some((value) => typeof value !== 'number')) return null;
+  const sum = values.reduce<number>((acc, value) => acc + (value as number), 0);
+  return Math.round((sum / values.length) * 100) / 100;
+}
+
+// 把录像逐帧送入引擎，用与实时组件相同的 StageTimer 按帧时间戳推进超时、完成延迟与动作间停顿，
+// 输出与实时会话同结构的结果 JSON 及引擎轨迹（需以 traceRecording 创建引擎）。
+// 实时流程的定位阶段依赖屏幕上的引导椭圆，离线时以首个检测到人脸且未遮挡的帧代替放行，并同样重启引擎会话
+export async function runOfflineAnalysis(
+  engine: LivenessEngineHandle,
+  frames: AsyncIterable<OfflineFrame>,
+  options: OfflineAnalysisOptions = {},
+): Promise<OfflineAnalysisResult> {
+  const plan = normalizeChallengePlan(options.challengePlan);
+  const timer = new StageTimer({
+    getTimeoutMs: (key) => options.stageTimeoutsMs?.[key] ?? getLivenessStage(key)?.timeoutMs,
+  });
+  await engine.warmup();
+  engine.startSession(plan);
+
+  let config: Readonly<LivenessConfig> | null = null;
+  let status: 'PASS' | 'FAIL' | null = null;
+  let failureReason: LivenessFailureReason | OfflineFailureReason | null = null;
+  let spoofProbability: number | null = null;
+  let screenReplayScore: number | null = null;
+  let keyFrame: KeyFrame | null = null;
+  let keyFrameScore = -Infinity;
+  let started = false;
+  let occluded = false;
+
+  try {
+    for await (const { element, timing } of frames) {
+      if (options.signal?.aborted) {
+        throw new Error('离线分析已取消');
+      }
+      const now = timing.timestampMs;
+      let timerState: StageTimerState | null = null;
+      if (started) {
+        timerState = timer.tick(now, occluded);
+        if (timerState.phase === 'timedOut') {
+          status = 'FAIL';
+          failureReason = 'STAGE_TIMEOUT';
+          break;
+        }
+        if (timerState.phase === 'finished') {
+          status = 'PASS';
+          break;
+        }
+        // 与实时流程相同：完成延迟与动作间停顿期间的帧不交给引擎
+        if (timer.isHolding()) continue;
+      }
+      const result = await engine.processFrame(element, timing);
+      const { stage, metrics, detection } = result;
+      config = result.config;
+      occluded = Boolean(metrics?.occlusion?.occluded);
+      if (typeof metrics?.sessionSpoofProbability === 'number') {
+        spoofProbability = metrics.sessionSpoofProbability;
+      }
+      if (typeof metrics?.sessionScreenReplayScore === 'number') {
+        screenReplayScore = metrics.sessionScreenReplayScore;
+      }
+      options.onFrame?.(result);
+
+      if (!started) {
+        if (detection && !occluded) {
+          engine.startSession(plan);
+          timer.start(plan.stages[0] ?? null, now);
+          started = true;
+        } else if (stage.failed || stage.completed) {
+          engine.startSession(plan);
+        }
+        continue;
+      }
+      if (stage.failed) {
+        status = 'FAIL';
+        failureReason = stage.failureReason ?? null;
+        break;
+      }
+      if (detection && metrics && typeof metrics.frontalScore === 'number' && !occluded
+        && metrics.frontalScore > keyFrameScore) {
+        const copied = copyKeyFrame(element, keyFrame);
+        if (copied) {
+          keyFrame = { ...copied, detection, metrics };
+          keyFrameScore = metrics.frontalScore;
+        }
+      }
+      if (typeof stage.justCompletedIndex === 'number') {
+        timerState = timer.completeStage({
+          stageIndex: stage.justCompletedIndex,
+          nextStageKey: stage.currentStage?.key ?? null,
+          sessionCompleted: stage.completed,
+        }, now);
+      } else if (stage.completed) {
+        timerState = timer.finish(now);
+      }
+      if (timerState?.phase === 'finished') {
+        status = 'PASS';
+        break;
+      }
+    }
+  } finally {
+    engine.stopSession();
+  }
+  // 放行帧重启了引擎会话，轨迹从动作开始计时的那一帧起记录
+  const trace = await engine.getTrace();
+  if (!status) {
+    status = 'FAIL';
+    failureReason = 'RECORDING_ENDED';
+  }
+
+  const evaluated = keyFrame ? evaluateKeyFrame(keyFrame, options.complianceLimits) : null;
+  const quality = evaluated?.quality ?? null;
+  const frontalFaceScore = keyFrame ? keyFrameScore : null;
+  const scores = {
+    brightnessScore: quality?.brightness?.score ?? null,
+    brightnessStatus: quality?.brightness?.status ?? null,
+    frontalFaceScore,
+    clarityScore: quality?.clarity ?? null,
+    uniformLightingScore: quality?.uniformLighting ?? null,
+    backgroundUniformityScore: quality?.backgroundUniformity ?? null,
+    pixelResolutionScore: quality?.pixelResolution ?? null,
+  };
+  return {
+    event: 'LIVENESS_RESULT',
+    status,
+    sessionState: status === 'PASS' ? 'COMPLETED' : 'FAILED',
+    challengePlan: plan,
+    config: config ?? engine.getConfig(),
+    diagnostics: engine.getBackendDiagnostics(),
+    failureReason: status === 'FAIL' ? failureReason : null,
+    referenceMatch: null,
+    scores: {
+      qualityScore: averageScore([
+        scores.brightnessScore,
+        scores.frontalFaceScore,
+        scores.clarityScore,
+        scores.uniformLightingScore,
+        scores.backgroundUniformityScore,
+        scores.pixelResolutionScore,
+      ]),
+      ...scores,
+      spoofProbability,
+      screenReplayScore,
+    },
+    compliance: evaluated?.compliance ?? null,
+    images: {
+      faceFull: keyFrame ? keyFrame.canvas.toDataURL('image/png') : null,
+      faceCrop: keyFrame ? cropFace(keyFrame.canvas, keyFrame.detection.bbox) : null,
+      faceAligned: keyFrame ? alignFace(keyFrame.canvas, keyFrame.detection.kps) : null,
+      gifs: {},
+    },
+    trace,
+  };
+}
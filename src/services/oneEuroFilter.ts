@@ -0,0 +1,70 @@
+export interface OneEuroFilterParams {
+  /** 静止时的截止频率（Hz），越小越平滑、延迟越大 */
+  minCutoff: number;
+  /** 速度系数，越大快速运动时跟随越紧 */
+  beta: number;
+  /** 速度估计本身的截止频率（Hz） */
+  derivativeCutoff: number;
+}
+
+function smoothingFactor(cutoff: number, dtSeconds: number) {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dtSeconds);
+}
+
+// One Euro 滤波：静止时强平滑去抖，运动时随速度提高截止频率以减少延迟
+export class OneEuroFilter {
+  private params: OneEuroFilterParams;
+  private lastValue: number | null = null;
+  private lastDerivative = 0;
+  private lastTimestamp: number | null = null;
+
+  constructor(params: OneEuroFilterParams) {
+    this.params = params;
+  }
+
+  filter(value: number, timestampMs: number) {
+    if (this.lastValue === null || this.lastTimestamp === null || timestampMs <= this.lastTimestamp) {
+      this.lastValue = value;
+      this.lastDerivative = 0;
+      this.lastTimestamp = timestampMs;
+      return value;
+    }
+    const dt = (timestampMs - this.lastTimestamp) / 1000;
+    const derivative = (value - this.lastValue) / dt;
+    const derivativeAlpha = smoothingFactor(this.params.derivativeCutoff, dt);
+    this.lastDerivative = derivativeAlpha * derivative + (1 - derivativeAlpha) * this.lastDerivative;
+    const cutoff = this.params.minCutoff + this.params.beta * Math.abs(this.lastDerivative);
+    const alpha = smoothingFactor(cutoff, dt);
+    this.lastValue = alpha * value + (1 - alpha) * this.lastValue;
+    this.lastTimestamp = timestampMs;
+    return this.lastValue;
+  }
+
+  reset() {
+    this.lastValue = null;
+    this.lastDerivative = 0;
+    this.lastTimestamp = null;
+  }
+}
+
+// 每个分量一个独立滤波器；长度变化时重建
+export class OneEuroVectorFilter {
+  private params: OneEuroFilterParams;
+  private filters: OneEuroFilter[] = [];
+
+  constructor(params: OneEuroFilterParams) {
+    this.params = params;
+  }
+
+  filter(values: number[], timestampMs: number) {
+    if (this.filters.length !== values.length) {
+      this.filters = values.map(() => new OneEuroFilter(this.params));
+    }
+    return values.map((value, index) => this.filters[index].filter(value, timestampMs));
+  }
+
+  reset() {
+    this.filters.forEach((filter) => filter.reset());
+  }
+}
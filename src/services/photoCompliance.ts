@@ -0,0 +1,198 @@
+export type ComplianceRuleId =
+  | 'eyesOpen'
+  | 'mouthClosed'
+  | 'headCentered'
+  | 'faceHeight'
+  | 'yaw'
+  | 'pitch'
+  | 'roll'
+  | 'background'
+  | 'exposure'
+  | 'glassesGlare';
+
+export type ComplianceRuleStatus = 'pass' | 'fail' | 'unknown';
+
+export type ComplianceVerdict = 'COMPLIANT' | 'NON_COMPLIANT' | 'INCONCLUSIVE';
+
+export interface ComplianceRuleResult {
+  rule: ComplianceRuleId;
+  /** 缺少测量值时为 unknown */
+  status: ComplianceRuleStatus;
+  value: number | null;
+  min?: number;
+  max?: number;
+}
+
+export interface ComplianceReport {
+  /** 任一规则失败为 NON_COMPLIANT；无失败但有规则无法测量为 INCONCLUSIVE */
+  verdict: ComplianceVerdict;
+  rules: ComplianceRuleResult[];
+  failed: ComplianceRuleId[];
+}
+
+type Point = { x: number; y: number };
+
+// 关键帧上的测量值，坐标均为原始（未镜像）图像像素
+export interface ComplianceMeasurements {
+  imageWidth: number;
+  imageHeight: number;
+  bbox: [number, number, number, number];
+  /** 双眼中心（WFLW 96/97 或 SCRFD 前两个关键点） */
+  eyeCenters: [Point, Point] | null;
+  leftEar: number | null;
+  rightEar: number | null;
+  mouthRatio: number | null;
+  poseDegrees: { yaw: number; pitch: number; roll: number } | null;
+  /** 背景均匀度 0~100 */
+  backgroundUniformity: number | null;
+  /** 人脸区域平均亮度 0~100 */
+  brightness: number | null;
+  /** 人脸区域过曝像素占比 0~1 */
+  overexposedRatio: number | null;
+  /** 眼周镜面高光像素占比 0~1，见 measureEyeGlare */
+  eyeGlareRatio: number | null;
+}
+
+export interface ComplianceLimits {
+  /** 单眼 EAR 下限 */
+  minEyeAspectRatio: number;
+  /** 内唇张开比例上限 */
+  maxMouthRatio: number;
+  /** 双眼中点偏离画面水平中心的上限，按画面宽度归一化 */
+  maxCenterOffset: number;
+  /** 人脸框高度占画面高度的区间 */
+  minFaceHeightRatio: number;
+  maxFaceHeightRatio: number;
+  /** 姿态角上限（度） */
+  maxYaw: number;
+  maxPitch: number;
+  maxRoll: number;
+  minBackgroundUniformity: number;
+  /** 人脸平均亮度区间 0~100 */
+  minBrightness: number;
+  maxBrightness: number;
+  maxOverexposedRatio: number;
+  maxEyeGlareRatio: number;
+}
+
+export const DEFAULT_COMPLIANCE_LIMITS: Readonly<ComplianceLimits> = Object.freeze({
+  minEyeAspectRatio: 0.18,
+  maxMouthRatio: 0.15,
+  maxCenterOffset: 0.1,
+  minFaceHeightRatio: 0.4,
+  maxFaceHeightRatio: 0.8,
+  maxYaw: 10,
+  maxPitch: 10,
+  maxRoll: 8,
+  minBackgroundUniformity: 60,
+  minBrightness: 30,
+  maxBrightness: 70,
+  maxOverexposedRatio: 0.1,
+  maxEyeGlareRatio: 0.03,
+});
+
+// 近白且低饱和的像素视为镜片反光；眼周区域在眼角连线基础上向四周扩展
+const GLARE_PIXEL = { luma: 235, saturation: 0.15 };
+const GLARE_EYE_PADDING = { x: 0.35, y: 0.6 };
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
+
+function checkRange(rule: ComplianceRuleId, value: number | null, min?: number, max?: number): ComplianceRuleResult {
+  if (value === null || !Number.isFinite(value)) {
+    return { rule, status: 'unknown', value: null, min, max };
+  }
+  const passed = (min === undefined || value >= min) && (max === undefined || value <= max);
+  return { rule, status: passed ? 'pass' : 'fail', value: round(value), min, max };
+}
+
+function minOrNull(a: number | null, b: number | null) {
+  if (a === null || b === null) return null;
+  return Math.min(a, b);
+}
+
+// 统计双眼周围（镜片范围）的镜面高光占比；data 为 width×height 的 RGBA，landmarks 为同一坐标系下的 WFLW 98 点
+export function measureEyeGlare(
+  data: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  landmarks: Point[],
+) {
+  if (data.length < width * height * 4) {
+    throw new Error('反光检测输入数据长度不足');
+  }
+  if (landmarks.length < 98) return null;
+  let total = 0;
+  let glare = 0;
+  for (const [from, to] of [[60, 67], [68, 75]]) {
+    const points = landmarks.slice(from, to + 1);
+    const minX = Math.min(...points.map((point) => point.x));
+    const maxX = Math.max(...points.map((point) => point.x));
+    const minY = Math.min(...points.map((point) => point.y));
+    const maxY = Math.max(...points.map((point) => point.y));
+    const eyeWidth = maxX - minX;
+    const x1 = Math.max(0, Math.floor(minX - eyeWidth * GLARE_EYE_PADDING.x));
+    const x2 = Math.min(width, Math.ceil(maxX + eyeWidth * GLARE_EYE_PADDING.x));
+    const y1 = Math.max(0, Math.floor(minY - eyeWidth * GLARE_EYE_PADDING.y));
+    const y2 = Math.min(height, Math.ceil(maxY + eyeWidth * GLARE_EYE_PADDING.y));
+    for (let y = y1; y < y2; y += 1) {
+      for (let x = x1; x < x2; x += 1) {
+        const i = (y * width + x) * 4;
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        const max = Math.max(r, g, b);
+        const saturation = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        total += 1;
+        if (luma >= GLARE_PIXEL.luma && saturation <= GLARE_PIXEL.saturation) {
+          glare += 1;
+        }
+      }
+    }
+  }
+  return total ? glare / total : null;
+}
+
+// 参照 ICAO 9303 / ISO 19794-5 对证件照的要求逐条判定，阈值针对视频帧做了放宽，可按需覆盖
+export function evaluateCompliance(
+  measurements: ComplianceMeasurements,
+  limits: Partial<ComplianceLimits> = {},
+): ComplianceReport {
+  const resolved = { ...DEFAULT_COMPLIANCE_LIMITS, ...limits };
+  const { imageWidth, imageHeight, bbox, eyeCenters, poseDegrees } = measurements;
+  const centerOffset = eyeCenters && imageWidth > 0
+    ? Math.abs((eyeCenters[0].x + eyeCenters[1].x) / 2 / imageWidth - 0.5)
+    : null;
+  const faceHeightRatio = imageHeight > 0 ? (bbox[3] - bbox[1]) / imageHeight : null;
+  const exposure = checkRange('exposure', measurements.brightness, resolved.minBrightness, resolved.maxBrightness);
+  // 平均亮度合格但过曝像素过多同样不合格
+  if (
+    exposure.status === 'pass' &&
+    measurements.overexposedRatio !== null &&
+    measurements.overexposedRatio > resolved.maxOverexposedRatio
+  ) {
+    exposure.status = 'fail';
+  }
+  const rules: ComplianceRuleResult[] = [
+    checkRange('eyesOpen', minOrNull(measurements.leftEar, measurements.rightEar), resolved.minEyeAspectRatio),
+    checkRange('mouthClosed', measurements.mouthRatio, undefined, resolved.maxMouthRatio),
+    checkRange('headCentered', centerOffset, undefined, resolved.maxCenterOffset),
+    checkRange('faceHeight', faceHeightRatio, resolved.minFaceHeightRatio, resolved.maxFaceHeightRatio),
+    checkRange('yaw', poseDegrees ? Math.abs(poseDegrees.yaw) : null, undefined, resolved.maxYaw),
+    checkRange('pitch', poseDegrees ? Math.abs(poseDegrees.pitch) : null, undefined, resolved.maxPitch),
+    checkRange('roll', poseDegrees ? Math.abs(poseDegrees.roll) : null, undefined, resolved.maxRoll),
+    checkRange('background', measurements.backgroundUniformity, resolved.minBackgroundUniformity),
+    exposure,
+    checkRange('glassesGlare', measurements.eyeGlareRatio, undefined, resolved.maxEyeGlareRatio),
+  ];
+  const failed = rules.filter((result) => result.status === 'fail').map((result) => result.rule);
+  let verdict: ComplianceVerdict = 'COMPLIANT';
+  if (failed.length) {
+    verdict = 'NON_COMPLIANT';
+  } else if (rules.some((result) => result.status === 'unknown')) {
+    verdict = 'INCONCLUSIVE';
+  }
+  return { verdict, rules, failed };
+}
@@ -0,0 +1,212 @@
+export interface ScreenReplayAnalysis {
+  moireScore: number;
+  bandingScore: number;
+  colorScore: number;
+  score: number;
+}
+
+const SCORE_WEIGHTS = { moire: 0.4, banding: 0.3, color: 0.3 };
+const MOIRE_RATIO_RANGE = { low: 8, high: 48 };
+const BANDING_RATIO_RANGE = { low: 6, high: 26 };
+const LOW_SATURATION = { high: 0.25, span: 0.15 };
+const SPECULAR = { value: 0.94, saturation: 0.1, ratio: 0.08 };
+
+function clamp01(value: number) {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+function rangeScore(value: number, range: { low: number; high: number }) {
+  return clamp01((value - range.low) / (range.high - range.low));
+}
+
+function isPowerOfTwo(value: number) {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i += 1) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k += 1) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+function toGray(data: Uint8ClampedArray | Uint8Array, area: number) {
+  const gray = new Float64Array(area);
+  for (let i = 0, j = 0; j < area; i += 4, j += 1) {
+    gray[j] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+}
+
+function hann(index: number, size: number) {
+  return 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / (size - 1));
+}
+
+// 屏幕翻拍的摩尔纹在频域表现为中高频处孤立的尖峰：取各频率环上最大能量与该环平均能量之比
+function computeMoireRatio(gray: Float64Array, size: number) {
+  let mean = 0;
+  for (let i = 0; i < gray.length; i += 1) mean += gray[i];
+  mean /= gray.length;
+
+  const re = new Float64Array(size * size);
+  const im = new Float64Array(size * size);
+  for (let y = 0; y < size; y += 1) {
+    const wy = hann(y, size);
+    for (let x = 0; x < size; x += 1) {
+      re[y * size + x] = (gray[y * size + x] - mean) * wy * hann(x, size);
+    }
+  }
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+  for (let y = 0; y < size; y += 1) {
+    rowRe.set(re.subarray(y * size, (y + 1) * size));
+    rowIm.set(im.subarray(y * size, (y + 1) * size));
+    fft(rowRe, rowIm);
+    re.set(rowRe, y * size);
+    im.set(rowIm, y * size);
+  }
+  for (let x = 0; x < size; x += 1) {
+    for (let y = 0; y < size; y += 1) {
+      rowRe[y] = re[y * size + x];
+      rowIm[y] = im[y * size + x];
+    }
+    fft(rowRe, rowIm);
+    for (let y = 0; y < size; y += 1) {
+      re[y * size + x] = rowRe[y];
+      im[y * size + x] = rowIm[y];
+    }
+  }
+
+  const half = size / 2;
+  const ringSum = new Float64Array(half);
+  const ringMax = new Float64Array(half);
+  const ringCount = new Uint32Array(half);
+  for (let v = 0; v < size; v += 1) {
+    const fv = v < half ? v : v - size;
+    for (let u = 0; u < size; u += 1) {
+      const fu = u < half ? u : u - size;
+      const radius = Math.round(Math.sqrt(fu * fu + fv * fv));
+      if (radius < size / 8 || radius >= half) continue;
+      const index = v * size + u;
+      const power = re[index] * re[index] + im[index] * im[index];
+      ringSum[radius] += power;
+      ringCount[radius] += 1;
+      ringMax[radius] = Math.max(ringMax[radius], power);
+    }
+  }
+  let ratio = 0;
+  for (let r = 0; r < half; r += 1) {
+    if (!ringCount[r] || ringSum[r] <= 0) continue;
+    ratio = Math.max(ratio, ringMax[r] / (ringSum[r] / ringCount[r]));
+  }
+  return ratio;
+}
+
+// 刷新率与快门不同步会产生水平条纹：对去趋势后的行均值做一维 FFT，看是否存在单一主频
+function computeBandingRatio(gray: Float64Array, size: number) {
+  const rows = new Float64Array(size);
+  for (let y = 0; y < size; y += 1) {
+    let sum = 0;
+    for (let x = 0; x < size; x += 1) sum += gray[y * size + x];
+    rows[y] = sum / size;
+  }
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const window = 5;
+  for (let y = 0; y < size; y += 1) {
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.max(0, y - window); k <= Math.min(size - 1, y + window); k += 1) {
+      sum += rows[k];
+      count += 1;
+    }
+    re[y] = (rows[y] - sum / count) * hann(y, size);
+  }
+  fft(re, im);
+  let peak = 0;
+  let total = 0;
+  let count = 0;
+  for (let k = 2; k < size / 2; k += 1) {
+    const power = re[k] * re[k] + im[k] * im[k];
+    peak = Math.max(peak, power);
+    total += power;
+    count += 1;
+  }
+  if (!count || total <= 0) return 0;
+  return peak / (total / count);
+}
+
+// LCD/OLED 翻拍通常饱和度偏低，且有大片低饱和的镜面高光
+function computeColorScore(data: Uint8ClampedArray | Uint8Array, area: number) {
+  let saturationSum = 0;
+  let specularCount = 0;
+  for (let i = 0, j = 0; j < area; i += 4, j += 1) {
+    const r = data[i] / 255;
+    const g = data[i + 1] / 255;
+    const b = data[i + 2] / 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    saturationSum += saturation;
+    if (max >= SPECULAR.value && saturation <= SPECULAR.saturation) {
+      specularCount += 1;
+    }
+  }
+  const meanSaturation = saturationSum / area;
+  const saturationScore = clamp01((LOW_SATURATION.high - meanSaturation) / LOW_SATURATION.span);
+  const specularScore = clamp01(specularCount / area / SPECULAR.ratio);
+  return saturationScore * 0.6 + specularScore * 0.4;
+}
+
+export function analyzeScreenReplay(data: Uint8ClampedArray | Uint8Array, size: number): ScreenReplayAnalysis {
+  if (!isPowerOfTwo(size)) {
+    throw new Error(`屏幕翻拍分析尺寸必须是 2 的幂: ${size}`);
+  }
+  const area = size * size;
+  if (data.length < area * 4) {
+    throw new Error('屏幕翻拍分析输入数据长度不足');
+  }
+  const gray = toGray(data, area);
+  const moireScore = rangeScore(computeMoireRatio(gray, size), MOIRE_RATIO_RANGE);
+  const bandingScore = rangeScore(computeBandingRatio(gray, size), BANDING_RATIO_RANGE);
+  const colorScore = computeColorScore(data, area);
+  const score =
+    moireScore * SCORE_WEIGHTS.moire + bandingScore * SCORE_WEIGHTS.banding + colorScore * SCORE_WEIGHTS.color;
+  return {
+    moireScore: Math.round(moireScore * 1000) / 1000,
+    bandingScore: Math.round(bandingScore * 1000) / 1000,
+    colorScore: Math.round(colorScore * 1000) / 1000,
+    score: Math.round(clamp01(score) * 1000) / 1000,
+  };
+}
@@ -0,0 +1,185 @@
+import type { LivenessStageKey } from './livenessEngine';
+
+export const DEFAULT_STAGE_TIMEOUT_MS = 3000;
+export const MIN_STAGE_COMPLETE_MS = 1000;
+export const STAGE_COOLDOWN_MS = 1000;
+
+export interface StageTimerOptions {
+  /** 未单独设置超时的动作使用的超时（毫秒） */
+  defaultTimeoutMs: number;
+  /** 动作至少持续多久才结算；提前完成时先进入完成延迟，等满该时长（毫秒） */
+  minStageCompleteMs: number;
+  /** 每个动作结算后的停顿（毫秒），期间不取帧也不计时 */
+  cooldownMs: number;
+  /** 按动作返回超时，返回 undefined 时使用 defaultTimeoutMs */
+  getTimeoutMs?: (stageKey: LivenessStageKey) => number | undefined;
+}
+
+export const DEFAULT_STAGE_TIMER_OPTIONS: StageTimerOptions = {
+  defaultTimeoutMs: DEFAULT_STAGE_TIMEOUT_MS,
+  minStageCompleteMs: MIN_STAGE_COMPLETE_MS,
+  cooldownMs: STAGE_COOLDOWN_MS,
+};
+
+export type StageTimerPhase = 'idle' | 'running' | 'completionDelay' | 'cooldown' | 'finished' | 'timedOut';
+
+export type StageTimerEvent =
+  /** 停顿结束，下一个动作开始计时；动作全部完成、等待引擎补采样时 stageKey 为 null */
+  | { type: 'stageStarted'; stageKey: LivenessStageKey | null; timestampMs: number }
+  /** 动作结算（已满足最短时长），调用方在此保存动作证据 */
+  | { type: 'stageCompleted'; stageIndex: number; nextStageKey: LivenessStageKey | null; timestampMs: number }
+  | { type: 'finished'; timestampMs: number }
+  | { type: 'timeout'; stageKey: LivenessStageKey | null; timestampMs: number };
+
+export interface StageTimerState {
+  phase: StageTimerPhase;
+  stageKey: LivenessStageKey | null;
+  /** 当前动作已计时的时长，不含暂停时间 */
+  elapsedMs: number;
+  /** 剩余时间占超时的比例 0~1 */
+  remaining: number;
+  /** 本次调用期间发生的事件，按发生顺序排列 */
+  events: StageTimerEvent[];
+}
+
+export interface StageCompletion {
+  stageIndex: number;
+  nextStageKey: LivenessStageKey | null;
+  /** 引擎已判定整个会话通过 */
+  sessionCompleted: boolean;
+}
+
+// 动作计时、完成延迟与动作间停顿的规则，只依赖调用方传入的时间戳：
+// 实时流程用 performance.now() 与帧采集时间驱动，离线分析用录像的帧时间驱动
+export class StageTimer {
+  private options: StageTimerOptions;
+  private phase: StageTimerPhase = 'idle';
+  private stageKey: LivenessStageKey | null = null;
+  private stageStart = 0;
+  private pausedMs = 0;
+  private lastTimestamp: number | null = null;
+  private phaseEndsAt = 0;
+  private pending: StageCompletion | null = null;
+  private nextStageKey: LivenessStageKey | null = null;
+
+  constructor(options: Partial<StageTimerOptions> = {}) {
+    this.options = { ...DEFAULT_STAGE_TIMER_OPTIONS, ...options };
+  }
+
+  // 完成延迟或动作间停顿期间，调用方不应把帧交给引擎
+  isHolding() {
+    return this.phase === 'completionDelay' || this.phase === 'cooldown';
+  }
+
+  // 第一个动作开始计时，实时流程为定位阶段放行的那一帧
+  start(stageKey: LivenessStageKey | null, timestampMs: number): StageTimerState {
+    this.reset();
+    this.lastTimestamp = timestampMs;
+    this.startStage(stageKey, timestampMs);
+    return this.buildState(timestampMs, []);
+  }
+
+  // 推进时钟并结算到期的完成延迟、停顿与超时；paused 为 true（如五官被遮挡）时当前动作不计时
+  tick(timestampMs: number, paused = false): StageTimerState {
+    const events: StageTimerEvent[] = [];
+    const delta = this.lastTimestamp === null ? 0 : Math.max(0, timestampMs - this.lastTimestamp);
+    this.lastTimestamp = Math.max(this.lastTimestamp ?? timestampMs, timestampMs);
+    if (this.phase === 'completionDelay' && timestampMs >= this.phaseEndsAt) {
+      this.settle(this.phaseEndsAt, events);
+    }
+    if (this.phase === 'cooldown' && timestampMs >= this.phaseEndsAt) {
+      this.startStage(this.nextStageKey, this.phaseEndsAt);
+      events.push({ type: 'stageStarted', stageKey: this.stageKey, timestampMs: this.stageStart });
+    }
+    if (this.phase === 'running') {
+      if (paused) {
+        this.pausedMs += Math.min(delta, Math.max(0, timestampMs - this.stageStart));
+      } else if (this.getElapsed(timestampMs) >= this.getTimeout()) {
+        this.phase = 'timedOut';
+        events.push({ type: 'timeout', stageKey: this.stageKey, timestampMs });
+      }
+    }
+    return this.buildState(timestampMs, events);
+  }
+
+  // 引擎报告动作完成；未满最短时长时先进入完成延迟，由后续 tick 结算
+  completeStage(completion: StageCompletion, timestampMs: number): StageTimerState {
+    if (this.phase !== 'running') return this.buildState(timestampMs, []);
+    const events: StageTimerEvent[] = [];
+    const elapsed = this.getElapsed(timestampMs);
+    this.pending = completion;
+    if (elapsed < this.options.minStageCompleteMs) {
+      this.phase = 'completionDelay';
+      this.phaseEndsAt = timestampMs + (this.options.minStageCompleteMs - elapsed);
+    } else {
+      this.settle(timestampMs, events);
+    }
+    return this.buildState(timestampMs, events);
+  }
+
+  // 引擎在没有新完成动作的帧上判定会话通过（动作完成后补足采样）
+  finish(timestampMs: number): StageTimerState {
+    if (this.phase !== 'running') return this.buildState(timestampMs, []);
+    this.phase = 'finished';
+    return this.buildState(timestampMs, [{ type: 'finished', timestampMs }]);
+  }
+
+  reset() {
+    this.phase = 'idle';
+    this.stageKey = null;
+    this.stageStart = 0;
+    this.pausedMs = 0;
+    this.lastTimestamp = null;
+    this.phaseEndsAt = 0;
+    this.pending = null;
+    this.nextStageKey = null;
+  }
+
+  private startStage(stageKey: LivenessStageKey | null, timestampMs: number) {
+    this.phase = 'running';
+    this.stageKey = stageKey;
+    this.stageStart = timestampMs;
+    this.pausedMs = 0;
+  }
+
+  private settle(timestampMs: number, events: StageTimerEvent[]) {
+    const completion = this.pending;
+    this.pending = null;
+    if (!completion) return;
+    events.push({
+      type: 'stageCompleted',
+      stageIndex: completion.stageIndex,
+      nextStageKey: completion.nextStageKey,
+      timestampMs,
+    });
+    if (completion.sessionCompleted) {
+      this.phase = 'finished';
+      events.push({ type: 'finished', timestampMs });
+      return;
+    }
+    this.phase = 'cooldown';
+    this.phaseEndsAt = timestampMs + this.options.cooldownMs;
+    this.nextStageKey = completion.nextStageKey;
+  }
+
+  private getTimeout() {
+    const override = this.stageKey ? this.options.getTimeoutMs?.(this.stageKey) : undefined;
+    return override ?? this.options.defaultTimeoutMs;
+  }
+
+  private getElapsed(timestampMs: number) {
+    return Math.max(0, timestampMs - this.stageStart - this.pausedMs);
+  }
+
+  private buildState(timestampMs: number, events: StageTimerEvent[]): StageTimerState {
+    const running = this.phase === 'running';
+    const elapsedMs = running ? this.getElapsed(timestampMs) : 0;
+    return {
+      phase: this.phase,
+      stageKey: this.stageKey,
+      elapsedMs,
+      remaining: this.phase === 'timedOut' ? 0 : running ? Math.max(0, 1 - elapsedMs / this.getTimeout()) : 1,
+      events,
+    };
+  }
+}